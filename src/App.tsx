@@ -1,112 +1,388 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
-import type { LanguageCode } from '@/lib/constants';
-import { LANGUAGES } from '@/lib/constants';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import type { LanguageCode, SourceLanguageCode } from '@/lib/languages';
+import { AUTO_DETECT_LANGUAGE, LANGUAGES, getLanguageLabel, getSourceLocale, hasLanguageCapability, isLanguageCode } from '@/lib/languages';
+import { detectLanguage } from '@/lib/language-detection';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { LanguagePanel } from '@/components/translation/LanguagePanel';
 import { LanguageSelector } from '@/components/translation/LanguageSelector';
 import { EnhanceCard } from '@/components/translation/EnhanceCard';
+import { DocumentTranslationCard } from '@/components/translation/DocumentTranslationCard';
+import { TranslationChunkStatus } from '@/components/translation/TranslationChunkStatus';
+import { AlignedTranslationView } from '@/components/translation/AlignedTranslationView';
+import { PostEditSummary } from '@/components/translation/PostEditSummary';
+import { AlternativesCountMenu, TranslationAlternativesSwitcher } from '@/components/translation/TranslationAlternatives';
+import { BackTranslationCard } from '@/components/translation/BackTranslationCard';
+import { TranslationOptionsPopover } from '@/components/translation/TranslationOptionsPopover';
+import { InputFormatMenu, ProtectedItemMismatchNotice } from '@/components/translation/FormatProtection';
+import { TargetLanguagesPicker } from '@/components/translation/TargetLanguagesPicker';
+import { TargetTranslationCard } from '@/components/translation/TargetTranslationCard';
 import { NavigationBar } from '@/components/layout/NavigationBar';
 import { ShortcutModal } from '@/components/shortcut/ShortcutModal';
 import { useDispatch, useSelector } from 'react-redux';
 import type { RootState } from '@/store/store';
 import { setWordDetails } from '@/store/slices/wordDetailsSlice';
+import { cacheTranslation, getCachedAlternatives, getCachedTranslation, makeTranslationCacheKey, touchTranslation } from '@/store/slices/translationCacheSlice';
+import { selectGlossaryForPair } from '@/store/slices/glossarySlice';
+import { selectTranslationOptionsForPair } from '@/store/slices/translationOptionsSlice';
+import { selectVoicePreference } from '@/store/slices/voicePreferencesSlice';
+import type { PreparedGlossaryText } from '@/lib/glossary';
+import { prepareGlossaryText } from '@/lib/glossary';
+import type { InputFormat } from '@/lib/format-protection';
+import { findProtectedItemMismatches, isInputFormat, protectFormatting, withFormatProtection } from '@/lib/format-protection';
+import type { TranslationRequestOptions } from '@/lib/translation-options';
+import { getTranslationOptionsCacheVariant, getTranslationRequestOptions } from '@/lib/translation-options';
+import { describeApiError, isAbortError } from '@/lib/api';
+import type { GetWordDetailsOutput } from '@/lib/api';
+import { useApiClient } from '@/hooks/use-api-client';
+import { useAudioPlayer } from '@/hooks/use-audio-player';
+import type { SpeechClip } from '@/lib/audio';
+import { createSpeechFile } from '@/lib/audio';
+import { downloadBlob } from '@/lib/download';
+import { useTranslationHistory } from '@/hooks/use-translation-history';
+import type { HistoryEntry, NewHistoryEntry } from '@/lib/history';
+import { HistorySheet } from '@/components/history/HistorySheet';
+import { GlossarySheet } from '@/components/glossary/GlossarySheet';
+import { TranslationMemorySheet } from '@/components/translation-memory/TranslationMemorySheet';
+import { SettingsSheet } from '@/components/settings/SettingsSheet';
+import { TranslationMemorySuggestions } from '@/components/translation/TranslationMemorySuggestions';
+import { useTranslationMemory } from '@/hooks/use-translation-memory';
+import { useSpeechCache } from '@/hooks/use-speech-cache';
+import { makeSpeechCacheKey } from '@/lib/speech-cache';
+import { createBrowserUtterance, getVoiceCacheVariant, getVoiceRequestOptions } from '@/lib/voices';
+import type { TranslationMemoryOrigin, TranslationMemorySegment } from '@/lib/translation-memory';
+import { findFuzzyMatches } from '@/lib/translation-memory';
+import { DOCUMENT_ACCEPT, getDocumentFormat } from '@/lib/documents';
+import { useServerConfig } from '@/hooks/use-server-config';
+import { useRateLimitStatus } from '@/hooks/use-rate-limit-status';
+import type { CompletedTargetTranslation } from '@/hooks/use-multi-target-translation';
+import { useMultiTargetTranslation } from '@/hooks/use-multi-target-translation';
+import { countWords } from '@/lib/text-segmentation';
+import type { TranslationChunk } from '@/lib/chunked-translation';
+import { createTranslationChunks, stitchTranslationChunks, translateChunks } from '@/lib/chunked-translation';
+import { alignSentences, replaceAlignedSegment } from '@/lib/sentence-alignment';
+import {
+  LIVE_TRANSLATE_BURST,
+  LIVE_TRANSLATE_DEBOUNCE_MS,
+  LIVE_TRANSLATE_REFILL_MS,
+  joinIncrementalTranslation,
+  planIncrementalTranslation,
+  rememberSentenceTranslation,
+} from '@/lib/live-translation';
+import { createTokenBucket } from '@/lib/token-bucket';
+import { createConcurrencyLimiter } from '@/lib/concurrency';
+import { Loader2, ArrowLeftRight, ArrowRight, Languages, Rows3, ShieldCheck, Sun, Moon, Zap } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { cn } from '@/lib/utils';
+import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip';
 
-interface TranslateTextOutput {
-  translatedText: string;
+/** Pause in typing before the source text is looked up in the translation memory. */
+const TRANSLATION_MEMORY_LOOKUP_DELAY = 300;
+const ALTERNATIVES_COUNT_STORAGE_KEY = 'translationAlternativesCount';
+const ADDITIONAL_TARGETS_STORAGE_KEY = 'additionalTargetLanguages';
+const INPUT_FORMAT_STORAGE_KEY = 'translationInputFormat';
+const LIVE_TRANSLATE_STORAGE_KEY = 'liveTranslate';
+/** Alternatives offered for a phrase selected in the translation. */
+const PHRASE_ALTERNATIVES_COUNT = 3;
+
+/** Panel id, and audio owner id, of an extra target language's card. */
+function getTargetPanelId(language: LanguageCode): string {
+  return `target-${language}-text-area`;
 }
 
-interface TextToSpeechApiResponse {
-  audioDataUri: string;
+/** A translation snapshot being verified by back-translation. */
+interface BackTranslationCheck {
+  id: number;
+  sourceText: string;
+  translatedText: string;
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
 }
 
-interface SpeechToTextOutput {
-  transcription: string;
-}
-interface GetWordDetailsOutput {
-  definedWord: string;
-  type: string;
-  meaning: string;
-  synonyms: string[];
-  antonyms: string[];
-  ipaPronunciation?: string;
+/** What a chunked translation was started for, kept so failed chunks can be retried later. */
+interface ChunkedTranslationContext {
+  sourceText: string;
+  /** `auto` when neither the client nor the server could tell the language. */
+  sourceLanguage: SourceLanguageCode;
+  targetLanguage: LanguageCode;
+  cacheKey: string;
+  /** Glossary-masked request text and how to turn raw output back into display text. */
+  prepared: PreparedGlossaryText;
+  /** Formality, domain and pronoun fields sent with every chunk. */
+  requestOptions: TranslationRequestOptions;
 }
 
 
-import { Loader2, ArrowLeftRight, ArrowRight, Languages, Sun, Moon } from 'lucide-react';
-import { useIsMobile } from '@/hooks/use-mobile';
-import { cn } from '@/lib/utils';
-import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip';
-
-const THROTTLE_DURATION = 2000;
-const WORD_LIMIT = 500;
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
-
-
 export default function App() {
   const [sourceText, setSourceText] = useState('');
-  const [translatedText, setTranslatedText] = useState('');
-  const [sourceLanguage, setSourceLanguage] = useState<LanguageCode>('en');
+  const [translatedText, setEditedTranslation] = useState('');
+  /** The translation as last produced by the machine; manual edits are diffed against it. */
+  const [machineTranslation, setMachineTranslation] = useState('');
+  const [isEditingTranslation, setIsEditingTranslation] = useState(false);
+  /** Requested alternatives per translation; 0 when only the main translation is wanted. */
+  const [alternativesCount, setAlternativesCount] = useState(() => Number(localStorage.getItem(ALTERNATIVES_COUNT_STORAGE_KEY)) || 0);
+  const [isLiveTranslateEnabled, setIsLiveTranslateEnabled] = useState(() => localStorage.getItem(LIVE_TRANSLATE_STORAGE_KEY) === 'true');
+  const [inputFormat, setInputFormat] = useState<InputFormat>(() => {
+    const stored = localStorage.getItem(INPUT_FORMAT_STORAGE_KEY);
+    return isInputFormat(stored) ? stored : 'plain';
+  });
+  const [additionalTargetLanguages, setAdditionalTargetLanguages] = useState<LanguageCode[]>(() => {
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(ADDITIONAL_TARGETS_STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored.filter(isLanguageCode) : [];
+    } catch {
+      return [];
+    }
+  });
+  /** The main translation followed by its alternatives; empty when there are none. */
+  const [translationAlternatives, setTranslationAlternatives] = useState<string[]>([]);
+  const [selectedAlternativeIndex, setSelectedAlternativeIndex] = useState(0);
+  const [sourceLanguage, setSourceLanguage] = useState<SourceLanguageCode>('en');
+  const [detectedSourceLanguage, setDetectedSourceLanguage] = useState<LanguageCode | null>(null);
   const [targetLanguage, setTargetLanguage] = useState<LanguageCode>('vi');
   const [sourceWordCount, setSourceWordCount] = useState(0);
   const [enhanceCardResetKey, setEnhanceCardResetKey] = useState(0);
 
   const [isTranslating, setIsTranslating] = useState(false);
+  const [isStreamingTranslation, setIsStreamingTranslation] = useState(false);
+  const [isTranslationFromCache, setIsTranslationFromCache] = useState(false);
+  const [translationChunks, setTranslationChunks] = useState<TranslationChunk[]>([]);
+  const [glossaryHighlightTerms, setGlossaryHighlightTerms] = useState<string[]>([]);
+  const [memorySegments, setMemorySegments] = useState<TranslationMemorySegment[]>([]);
   const [isLoadingSourceTTS, setIsLoadingSourceTTS] = useState(false);
   const [isLoadingTargetTTS, setIsLoadingTargetTTS] = useState(false);
+  // Last text-to-speech result per panel id, kept so it can be downloaded.
+  const [speechClips, setSpeechClips] = useState<Record<string, SpeechClip>>({});
   const [isRecording, setIsRecording] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(document.body.classList.contains('dark'));
   const [isProcessingAudio, setIsProcessingAudio] = useState(false);
-  const [isThrottled, setIsThrottled] = useState(false);
 
   const [activeWordForDefinition, setActiveWordForDefinition] = useState<string | null>(null);
   const [currentWordDetails, setCurrentWordDetails] = useState<GetWordDetailsOutput | null>(null);
   const [isWordDetailLoading, setIsWordDetailLoading] = useState(false);
   const [isShortcutModalOpen, setIsShortcutModalOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isTranslationMemoryOpen, setIsTranslationMemoryOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isAlignedViewOpen, setIsAlignedViewOpen] = useState(false);
+  const [translatingSegmentIndex, setTranslatingSegmentIndex] = useState<number | null>(null);
+  const [backTranslationCheck, setBackTranslationCheck] = useState<BackTranslationCheck | null>(null);
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
 
   const { toast } = useToast();
-  const audioPlayerRef = useRef<HTMLAudioElement | null>(null);
+  const apiClient = useApiClient();
+  const audioPlayer = useAudioPlayer();
+  const { wordLimit, maxConcurrentRequests, supportsGlossary } = useServerConfig();
+  const translationHistory = useTranslationHistory();
+  const { recordEntry: recordHistoryEntry } = translationHistory;
+  const translationMemory = useTranslationMemory();
+  const speechCache = useSpeechCache();
+  const { recordTranslation: recordInTranslationMemory } = translationMemory;
+  const { secondsUntilUnblocked, queuedRequests } = useRateLimitStatus();
+  // The main target is always translated in the main panel, so it never gets a card of its own.
+  const fanOutTargets = useMemo(
+    () => additionalTargetLanguages.filter(language => language !== targetLanguage),
+    [additionalTargetLanguages, targetLanguage]
+  );
+  const handleTargetTranslated = useCallback((result: CompletedTargetTranslation) => {
+    if (result.sourceLanguage === 'auto') return;
+    recordInTranslationMemory(result.sourceText, result.translatedText, result.sourceLanguage, result.targetLanguage, 'translation');
+  }, [recordInTranslationMemory]);
+  // One limiter for every translation request, so the concurrency cap counts them all.
+  const translationLimiter = useMemo(() => createConcurrencyLimiter(maxConcurrentRequests), [maxConcurrentRequests]);
+  const {
+    translations: targetTranslations,
+    translateAll: translateAdditionalTargets,
+    retryTarget: retryAdditionalTarget,
+  } = useMultiTargetTranslation({
+    targets: fanOutTargets,
+    wordLimit,
+    maxConcurrentRequests,
+    limiter: translationLimiter,
+    supportsGlossary,
+    inputFormat,
+    onTargetTranslated: handleTargetTranslated,
+  });
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
-  const throttleTimeoutRef = useRef<number | null>(null); // Fix for setTimeout ref type in browser
+  const translationRequestIdRef = useRef(0);
+  const translationAbortControllerRef = useRef<AbortController | null>(null);
+  const inFlightTranslationKeyRef = useRef<string | null>(null);
+  const chunkedTranslationContextRef = useRef<ChunkedTranslationContext | null>(null);
+  const segmentAbortControllerRef = useRef<AbortController | null>(null);
+  // Per-sentence translations reused by live translation, valid for `liveContextKeyRef`'s settings.
+  const liveSentenceTranslationsRef = useRef(new Map<string, string>());
+  const liveContextKeyRef = useRef('');
+  const liveRetryTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const liveTokenBucket = useMemo(() => createTokenBucket(LIVE_TRANSLATE_BURST, LIVE_TRANSLATE_REFILL_MS), []);
+  // History entry backing what the panels currently show, so applied enhancements attach to it.
+  const currentHistoryEntryRef = useRef<HistoryEntry | null>(null);
+
+  // The concrete language of the source text: the user's pick, or the detected one under "Auto-detect".
+  const resolvedSourceLanguage: LanguageCode = sourceLanguage === 'auto'
+    ? detectedSourceLanguage ?? 'en'
+    : sourceLanguage;
+  // What translation requests send: `auto` while the language is unknown, so the server detects it.
+  const requestSourceLanguage: SourceLanguageCode = sourceLanguage === 'auto'
+    ? detectedSourceLanguage ?? 'auto'
+    : sourceLanguage;
+
+  /** Shows machine output in the translation panel, making it the new baseline for manual edits. */
+  const setTranslatedText = useCallback((text: string) => {
+    setEditedTranslation(text);
+    setMachineTranslation(text);
+    setIsEditingTranslation(false);
+  }, []);
+
+  /** Offers `alternatives` next to `mainTranslation` in the switcher, dropping duplicates. */
+  const showTranslationAlternatives = useCallback((mainTranslation: string, alternatives: string[]) => {
+    const options = [mainTranslation, ...alternatives.filter(alternative => alternative !== mainTranslation)];
+    setTranslationAlternatives(options.length > 1 ? [...new Set(options)] : []);
+    setSelectedAlternativeIndex(0);
+  }, []);
 
   const isMobile = useIsMobile();
   const dispatch = useDispatch();
   const wordDetailsCache = useSelector((state: RootState) => state.wordDetails.cache);
+  const translationCache = useSelector((state: RootState) => state.translationCache);
+  const glossary = useSelector((state: RootState) => state.glossary);
+  const translationOptions = useSelector((state: RootState) => state.translationOptions);
+  const voicePreferences = useSelector((state: RootState) => state.voicePreferences);
 
   useEffect(() => {
-    audioPlayerRef.current = new Audio();
-    const currentAudioElement = audioPlayerRef.current;
-
     return () => {
-      if (currentAudioElement) {
-        currentAudioElement.pause();
-      }
-      audioPlayerRef.current = null;
+      audioPlayer.stop();
 
       if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
         mediaRecorderRef.current.stop();
       }
-      if (throttleTimeoutRef.current) {
-        clearTimeout(throttleTimeoutRef.current);
-      }
+      translationAbortControllerRef.current?.abort();
     };
+  }, [audioPlayer]);
+
+  /**
+   * Aborts the in-flight translation (if any) and invalidates its request id so a late
+   * response can never land in `translatedText`.
+   */
+  const cancelPendingTranslation = useCallback(() => {
+    translationRequestIdRef.current++;
+    translationAbortControllerRef.current?.abort();
+    translationAbortControllerRef.current = null;
+    segmentAbortControllerRef.current?.abort();
+    segmentAbortControllerRef.current = null;
+    inFlightTranslationKeyRef.current = null;
+    setIsTranslating(false);
+    setIsStreamingTranslation(false);
+    setIsTranslationFromCache(false);
+    setTranslationChunks([]);
+    setTranslatingSegmentIndex(null);
+    setTranslationAlternatives([]);
   }, []);
 
+  /**
+   * Saves a translation to history and makes it the entry later enhancements attach to. Its
+   * sentence pairs also go to the translation memory unless `memoryOrigin` is null or the source
+   * language is unknown.
+   */
+  const recordTranslationInHistory = useCallback((entry: NewHistoryEntry, memoryOrigin: TranslationMemoryOrigin | null = 'translation') => {
+    const requestIdAtRecord = translationRequestIdRef.current;
+    currentHistoryEntryRef.current = null;
+    recordHistoryEntry(entry).then(recorded => {
+      if (requestIdAtRecord === translationRequestIdRef.current) {
+        currentHistoryEntryRef.current = recorded;
+      }
+    });
+    if (memoryOrigin && entry.sourceLanguage !== 'auto') {
+      recordInTranslationMemory(entry.sourceText, entry.translatedText, entry.sourceLanguage, entry.targetLanguage, memoryOrigin);
+    }
+  }, [recordHistoryEntry, recordInTranslationMemory]);
+
+  /**
+   * Translates `chunks` with bounded concurrency, mirroring their progress into the panels while
+   * `requestId` is current. Caches the stitched raw output and resolves with it glossary-restored,
+   * or with null when some chunks failed (they stay visible with a retry action).
+   */
+  const runChunkedTranslation = useCallback(async (
+    chunks: TranslationChunk[],
+    context: ChunkedTranslationContext,
+    requestId: number,
+    signal: AbortSignal
+  ): Promise<string | null> => {
+    chunkedTranslationContextRef.current = context;
+    let latestChunks = chunks;
+    const showChunks = () => {
+      if (requestId === translationRequestIdRef.current) {
+        setTranslationChunks(latestChunks);
+        setTranslatedText(context.prepared.restore(stitchTranslationChunks(latestChunks)));
+      }
+    };
+    showChunks();
+    setIsStreamingTranslation(true);
+
+    const results = await translateChunks(chunks, {
+      concurrency: maxConcurrentRequests,
+      signal,
+      translate: (text, chunkSignal) => translationLimiter(async () => {
+        const result = await apiClient.translateText({
+          text,
+          sourceLanguage: context.sourceLanguage,
+          targetLanguage: context.targetLanguage,
+          glossary: context.prepared.serverGlossary,
+          ...context.requestOptions,
+        }, { signal: chunkSignal });
+        return result.translatedText;
+      }, chunkSignal),
+      onChunkChange: (chunk) => {
+        latestChunks = latestChunks.map(existing => existing.index === chunk.index ? chunk : existing);
+        showChunks();
+      },
+    });
+
+    const failedCount = results.filter(chunk => chunk.status === 'failed').length;
+    if (failedCount > 0) {
+      if (requestId === translationRequestIdRef.current) {
+        toast({
+          title: 'Translation Incomplete',
+          description: `${failedCount} of ${results.length} chunks could not be translated. Retry them below the translation.`,
+          variant: 'destructive',
+        });
+      }
+      return null;
+    }
+    const rawTranslation = stitchTranslationChunks(results);
+    dispatch(cacheTranslation({ key: context.cacheKey, translatedText: rawTranslation }));
+    return context.prepared.restore(rawTranslation);
+  }, [apiClient, maxConcurrentRequests, translationLimiter, dispatch, toast, setTranslatedText]);
 
   const handleTranslateText = useCallback(async (
     options: {
       text?: string;
-      srcLang?: LanguageCode;
+      srcLang?: SourceLanguageCode;
       tgtLang?: LanguageCode;
+      /** Started by live translation: the result is shown but not written to the history. */
+      isLive?: boolean;
     } = {}
   ) => {
     const textForTranslation = options.text !== undefined ? options.text : sourceText;
-    const effectiveSourceLang = options.srcLang !== undefined ? options.srcLang : sourceLanguage;
+    const selectedSourceLang = options.srcLang !== undefined ? options.srcLang : sourceLanguage;
     const effectiveTargetLang = options.tgtLang !== undefined ? options.tgtLang : targetLanguage;
+    const recordInHistory = (entry: NewHistoryEntry) => {
+      if (!options.isLive) recordTranslationInHistory(entry);
+    };
+    const isAutoDetect = selectedSourceLang === 'auto';
+    const clientDetectedLang = isAutoDetect ? detectLanguage(textForTranslation) : null;
+    // An unsure guess stays `auto`, so the server detects the language rather than us assuming one.
+    const effectiveSourceLang: SourceLanguageCode = isAutoDetect ? clientDetectedLang ?? 'auto' : selectedSourceLang;
+    if (isAutoDetect) {
+      setDetectedSourceLanguage(textForTranslation.trim() ? clientDetectedLang : null);
+    }
+    translateAdditionalTargets(textForTranslation, effectiveSourceLang);
 
     if (effectiveSourceLang === effectiveTargetLang) {
+      cancelPendingTranslation();
       if (textForTranslation.trim()) {
         setTranslatedText(textForTranslation);
       } else {
@@ -116,61 +392,480 @@ export default function App() {
     }
 
     if (!textForTranslation.trim()) {
+      cancelPendingTranslation();
       setTranslatedText('');
       return;
     }
 
-    if (isThrottled) {
-      toast({ title: 'Please wait', description: 'Translation request throttled. Try again shortly.', variant: 'default' });
+    // Markup and glossary terms are masked (or handed to the server) before the request and restored after it.
+    const protectedText = protectFormatting(textForTranslation, inputFormat);
+    const preparedText = withFormatProtection(protectedText, prepareGlossaryText(
+      protectedText.text,
+      selectGlossaryForPair(glossary, effectiveSourceLang, effectiveTargetLang),
+      { useServerGlossary: supportsGlossary }
+    ));
+    setGlossaryHighlightTerms(preparedText.matchedEntries.map(entry => entry.targetTerm));
+
+    const requestOptions = getTranslationRequestOptions(
+      selectTranslationOptionsForPair(translationOptions, effectiveSourceLang, effectiveTargetLang),
+      effectiveTargetLang
+    );
+    const cacheVariant = [
+      preparedText.cacheVariant,
+      getTranslationOptionsCacheVariant(requestOptions),
+      alternativesCount > 0 ? `alternatives:${alternativesCount}` : '',
+    ]
+      .filter(Boolean)
+      .join(';');
+    const cacheKey = makeTranslationCacheKey(preparedText.text, effectiveSourceLang, effectiveTargetLang, cacheVariant);
+    const cachedTranslation = getCachedTranslation(translationCache, cacheKey);
+    if (cachedTranslation !== null) {
+      cancelPendingTranslation();
+      dispatch(touchTranslation(cacheKey));
+      const restoredTranslation = preparedText.restore(cachedTranslation);
+      setTranslatedText(restoredTranslation);
+      setIsTranslationFromCache(true);
+      showTranslationAlternatives(restoredTranslation, getCachedAlternatives(translationCache, cacheKey).map(preparedText.restore));
+      recordInHistory({
+        sourceText: textForTranslation,
+        sourceLanguage: effectiveSourceLang,
+        targetLanguage: effectiveTargetLang,
+        translatedText: restoredTranslation,
+      });
       return;
     }
-    if (isTranslating) return;
+
+    const requestKey = `${effectiveSourceLang}|${effectiveTargetLang}|${cacheVariant}|${textForTranslation}`;
+    // The same text/language pair is already on its way; let that request finish.
+    if (inFlightTranslationKeyRef.current === requestKey) return;
+
+    // A newer pair supersedes the in-flight request; rate limiting is left to the API client's queue.
+    translationAbortControllerRef.current?.abort();
+
+    const currentRequestId = ++translationRequestIdRef.current;
+    const abortController = new AbortController();
+    translationAbortControllerRef.current = abortController;
+    inFlightTranslationKeyRef.current = requestKey;
 
     setIsTranslating(true);
-    setIsThrottled(true);
+    setTranslationChunks([]);
+    setTranslationAlternatives([]);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api/translate-text`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          text: textForTranslation,
+      // Text over the server's word limit is split at sentence boundaries instead of truncated.
+      if (countWords(preparedText.text) > wordLimit) {
+        const context = {
+          sourceText: textForTranslation,
           sourceLanguage: effectiveSourceLang,
           targetLanguage: effectiveTargetLang,
-        }),
+          cacheKey,
+          prepared: preparedText,
+          requestOptions,
+        };
+        const chunks = createTranslationChunks(preparedText.text, wordLimit, getSourceLocale(effectiveSourceLang));
+        const translatedText = await runChunkedTranslation(chunks, context, currentRequestId, abortController.signal);
+        if (translatedText !== null && currentRequestId === translationRequestIdRef.current) {
+          setTranslatedText(translatedText);
+          setIsTranslationFromCache(false);
+          recordInHistory({
+            sourceText: textForTranslation,
+            sourceLanguage: effectiveSourceLang,
+            targetLanguage: effectiveTargetLang,
+            translatedText,
+          });
+        }
+        return;
+      }
+
+      const result = await translationLimiter(() => apiClient.translateTextStream({
+        text: preparedText.text,
+        sourceLanguage: effectiveSourceLang,
+        targetLanguage: effectiveTargetLang,
+        glossary: preparedText.serverGlossary,
+        alternatives: alternativesCount > 0 ? alternativesCount : undefined,
+        ...requestOptions,
+      }, {
+        signal: abortController.signal,
+        onPartialText: (partialText) => {
+          if (currentRequestId === translationRequestIdRef.current) {
+            setIsStreamingTranslation(true);
+            setTranslatedText(preparedText.restore(partialText));
+          }
+        },
+      }), abortController.signal);
+
+      dispatch(cacheTranslation({ key: cacheKey, translatedText: result.translatedText, alternatives: result.alternatives }));
+      if (currentRequestId === translationRequestIdRef.current) {
+        const restoredTranslation = preparedText.restore(result.translatedText);
+        setTranslatedText(restoredTranslation);
+        setIsTranslationFromCache(false);
+        showTranslationAlternatives(restoredTranslation, (result.alternatives ?? []).map(preparedText.restore));
+        // Prefer the server's detection over the client-side guess when it reports one.
+        const serverDetectedLanguage = isAutoDetect && isLanguageCode(result.detectedSourceLanguage)
+          ? result.detectedSourceLanguage
+          : null;
+        if (serverDetectedLanguage) {
+          setDetectedSourceLanguage(serverDetectedLanguage);
+        }
+        recordInHistory({
+          sourceText: textForTranslation,
+          sourceLanguage: serverDetectedLanguage ?? effectiveSourceLang,
+          targetLanguage: effectiveTargetLang,
+          translatedText: restoredTranslation,
+        });
+      }
+    } catch (error) {
+      if (currentRequestId === translationRequestIdRef.current && !isAbortError(error)) {
+        console.error('Translation error:', error);
+        const description = describeApiError(error, 'translation service', 'Translation error');
+        toast({ title: 'Translation Failed', description, variant: 'destructive' });
+        setTranslatedText('');
+      }
+    } finally {
+      if (currentRequestId === translationRequestIdRef.current) {
+        translationAbortControllerRef.current = null;
+        inFlightTranslationKeyRef.current = null;
+        setIsTranslating(false);
+        setIsStreamingTranslation(false);
+      }
+    }
+  }, [sourceText, sourceLanguage, targetLanguage, toast, translateAdditionalTargets, apiClient, cancelPendingTranslation, recordTranslationInHistory, translationCache, dispatch, wordLimit, runChunkedTranslation, translationLimiter, glossary, supportsGlossary, translationOptions, inputFormat, setTranslatedText, alternativesCount, showTranslationAlternatives]);
+
+  const handleRetryFailedChunks = useCallback(async () => {
+    const context = chunkedTranslationContextRef.current;
+    if (!context || isTranslating) return;
+
+    const currentRequestId = ++translationRequestIdRef.current;
+    const abortController = new AbortController();
+    translationAbortControllerRef.current = abortController;
+    setIsTranslating(true);
+
+    try {
+      const translatedText = await runChunkedTranslation(translationChunks, context, currentRequestId, abortController.signal);
+      if (translatedText !== null && currentRequestId === translationRequestIdRef.current) {
+        setTranslatedText(translatedText);
+        recordTranslationInHistory({
+          sourceText: context.sourceText,
+          sourceLanguage: context.sourceLanguage,
+          targetLanguage: context.targetLanguage,
+          translatedText,
+        });
+      }
+    } catch (error) {
+      if (currentRequestId === translationRequestIdRef.current && !isAbortError(error)) {
+        console.error('Translation retry error:', error);
+        const description = describeApiError(error, 'translation service', 'Translation error');
+        toast({ title: 'Retry Failed', description, variant: 'destructive' });
+      }
+    } finally {
+      if (currentRequestId === translationRequestIdRef.current) {
+        translationAbortControllerRef.current = null;
+        setIsTranslating(false);
+        setIsStreamingTranslation(false);
+      }
+    }
+  }, [isTranslating, translationChunks, runChunkedTranslation, recordTranslationInHistory, toast, setTranslatedText]);
+
+  // Read through a ref by live translation: both change with the translation cache, and re-running
+  // the live effect on every cache update would translate again and touch the cache in a loop.
+  const liveHandlersRef = useRef({ handleTranslateText, translateAdditionalTargets });
+  useEffect(() => {
+    liveHandlersRef.current = { handleTranslateText, translateAdditionalTargets };
+  }, [handleTranslateText, translateAdditionalTargets]);
+
+  /**
+   * Translates `text` while the user types. Only sentences without a remembered translation are
+   * sent, and a run takes the place of any translation still in flight so results never arrive out
+   * of order. Runs are rate limited by a token bucket; an over-limit run is retried once a token
+   * frees up. Text over the word limit is translated in chunks like a Translate press, and the
+   * extra targets are kept up to date too. Live results are not written to the history; pressing
+   * Translate still does that.
+   */
+  const runLiveTranslation = useCallback(async (text: string) => {
+    clearTimeout(liveRetryTimeoutRef.current);
+    if (!text.trim()) return;
+    const effectiveSourceLang: SourceLanguageCode = sourceLanguage === 'auto' ? detectLanguage(text) ?? 'auto' : sourceLanguage;
+    // Extra targets follow along; they skip text they have already translated.
+    liveHandlersRef.current.translateAdditionalTargets(text, effectiveSourceLang);
+    if (effectiveSourceLang === targetLanguage) return;
+
+    const protectedText = protectFormatting(text, inputFormat);
+    const preparedText = withFormatProtection(protectedText, prepareGlossaryText(
+      protectedText.text,
+      selectGlossaryForPair(glossary, effectiveSourceLang, targetLanguage),
+      { useServerGlossary: supportsGlossary }
+    ));
+    const requestOptions = getTranslationRequestOptions(
+      selectTranslationOptionsForPair(translationOptions, effectiveSourceLang, targetLanguage),
+      targetLanguage
+    );
+    // Sentence translations only carry over while the pair, glossary, format and options stay the same.
+    const contextKey = [effectiveSourceLang, targetLanguage, preparedText.cacheVariant, getTranslationOptionsCacheVariant(requestOptions)].join('|');
+    if (liveContextKeyRef.current !== contextKey) {
+      liveContextKeyRef.current = contextKey;
+      liveSentenceTranslationsRef.current = new Map();
+    }
+    // Text over the word limit goes through the regular chunked translation rather than a request per sentence.
+    if (countWords(preparedText.text) > wordLimit) {
+      if (!liveTokenBucket.tryTake()) {
+        liveRetryTimeoutRef.current = setTimeout(() => runLiveTranslation(text), liveTokenBucket.msUntilNextToken());
+        return;
+      }
+      await liveHandlersRef.current.handleTranslateText({ text, srcLang: sourceLanguage, isLive: true });
+      return;
+    }
+    const knownTranslations = liveSentenceTranslationsRef.current;
+    const { parts, pendingSentences } = planIncrementalTranslation(preparedText.text, getSourceLocale(effectiveSourceLang), knownTranslations);
+    const showLiveTranslation = () => {
+      setTranslatedText(preparedText.restore(joinIncrementalTranslation(parts, knownTranslations)));
+      setIsTranslationFromCache(false);
+      setGlossaryHighlightTerms(preparedText.matchedEntries.map(entry => entry.targetTerm));
+    };
+    if (pendingSentences.length === 0) {
+      cancelPendingTranslation();
+      showLiveTranslation();
+      return;
+    }
+
+    if (!liveTokenBucket.tryTake()) {
+      liveRetryTimeoutRef.current = setTimeout(() => runLiveTranslation(text), liveTokenBucket.msUntilNextToken());
+      return;
+    }
+
+    cancelPendingTranslation();
+    const currentRequestId = ++translationRequestIdRef.current;
+    const abortController = new AbortController();
+    translationAbortControllerRef.current = abortController;
+    setIsTranslating(true);
+
+    try {
+      await Promise.all(pendingSentences.map(sentence => translationLimiter(async () => {
+        const result = await apiClient.translateText({
+          text: sentence,
+          sourceLanguage: effectiveSourceLang,
+          targetLanguage,
+          glossary: preparedText.serverGlossary,
+          ...requestOptions,
+        }, { signal: abortController.signal });
+        // Kept even if this run is superseded; the next run for the same sentence can reuse it.
+        rememberSentenceTranslation(knownTranslations, sentence, result.translatedText);
+      }, abortController.signal)));
+      if (currentRequestId === translationRequestIdRef.current) showLiveTranslation();
+    } catch (error) {
+      if (currentRequestId === translationRequestIdRef.current && !isAbortError(error) && !abortController.signal.aborted) {
+        console.error('Live translation error:', error);
+        const description = describeApiError(error, 'translation service', 'Translation error');
+        toast({ title: 'Live Translation Failed', description, variant: 'destructive' });
+      }
+    } finally {
+      if (currentRequestId === translationRequestIdRef.current) {
+        translationAbortControllerRef.current = null;
+        setIsTranslating(false);
+      }
+    }
+  }, [sourceLanguage, targetLanguage, inputFormat, glossary, supportsGlossary, translationOptions, wordLimit, liveTokenBucket, translationLimiter, apiClient, cancelPendingTranslation, setTranslatedText, toast]);
+
+  useEffect(() => {
+    if (!isLiveTranslateEnabled || !sourceText.trim()) return;
+    const timeoutId = setTimeout(() => runLiveTranslation(sourceText), LIVE_TRANSLATE_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timeoutId);
+      clearTimeout(liveRetryTimeoutRef.current);
+    };
+  }, [isLiveTranslateEnabled, sourceText, runLiveTranslation]);
+
+
+  useEffect(() => {
+    if (!sourceText.trim() || translationMemory.entries.length === 0) {
+      setMemorySegments([]);
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      setMemorySegments(findFuzzyMatches(
+        sourceText,
+        translationMemory.entries,
+        resolvedSourceLanguage,
+        targetLanguage,
+        translationMemory.threshold
+      ));
+    }, TRANSLATION_MEMORY_LOOKUP_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [sourceText, resolvedSourceLanguage, targetLanguage, translationMemory.entries, translationMemory.threshold]);
+
+  const alignedSegments = useMemo(
+    () => isAlignedViewOpen ? alignSentences(sourceText, translatedText, resolvedSourceLanguage, targetLanguage) : [],
+    [isAlignedViewOpen, sourceText, translatedText, resolvedSourceLanguage, targetLanguage]
+  );
+
+  const protectedItemMismatches = useMemo(
+    () => sourceText.trim() && translatedText.trim() ? findProtectedItemMismatches(sourceText, translatedText, inputFormat) : [],
+    [sourceText, translatedText, inputFormat]
+  );
+
+  /** Applies a hand-edited aligned sentence as a post-edit of the translation. */
+  const handleEditSegment = (index: number, segmentTranslation: string) => {
+    const segment = alignedSegments[index];
+    if (!segment) return;
+    setEditedTranslation(replaceAlignedSegment(alignedSegments, index, segmentTranslation));
+    recordInTranslationMemory(segment.sourceText, segmentTranslation, resolvedSourceLanguage, targetLanguage, 'edit');
+  };
+
+  /** Enters post-edit mode, or leaves it and remembers the edited translation. */
+  const handleToggleTranslationEditing = () => {
+    if (!isEditingTranslation) {
+      handleWordPopoverClose();
+      setIsEditingTranslation(true);
+      return;
+    }
+    setIsEditingTranslation(false);
+    if (translatedText.trim() && translatedText !== machineTranslation) {
+      recordCurrentTranslationInMemory(translatedText, 'edit');
+    }
+  };
+
+  /** Shows one of the alternative translations in the panel and remembers it as the preferred one. */
+  const handleSelectAlternative = (index: number) => {
+    const alternative = translationAlternatives[index];
+    if (alternative === undefined) return;
+    setTranslatedText(alternative);
+    setSelectedAlternativeIndex(index);
+    recordCurrentTranslationInMemory(alternative, 'translation');
+  };
+
+  const handleFetchPhraseAlternatives = async (phrase: string): Promise<string[]> => {
+    try {
+      const result = await apiClient.getPhraseAlternatives({
+        phrase,
+        translatedText,
+        sourceText,
+        sourceLanguage: resolvedSourceLanguage,
+        targetLanguage,
+        count: PHRASE_ALTERNATIVES_COUNT,
       });
+      return result.alternatives.filter(alternative => alternative !== phrase);
+    } catch (error) {
+      console.error('Phrase alternatives error:', error);
+      const description = describeApiError(error, 'phrase alternatives service', 'Could not load alternatives');
+      toast({ title: 'Alternatives Failed', description, variant: 'destructive' });
+      return [];
+    }
+  };
+
+  /** Splices a phrase alternative into the translation as a manual edit. */
+  const handleReplacePhrase = (start: number, end: number, replacement: string) => {
+    setEditedTranslation(prev => prev.slice(0, start) + replacement + prev.slice(end));
+  };
+
+  /** Starts a back-translation check of the translation as it currently reads. */
+  const handleVerifyTranslation = () => {
+    if (!translatedText.trim() || !sourceText.trim() || resolvedSourceLanguage === targetLanguage) return;
+    setBackTranslationCheck({
+      id: Date.now(),
+      sourceText,
+      translatedText,
+      sourceLanguage: resolvedSourceLanguage,
+      targetLanguage,
+    });
+  };
+
+  const handleAlternativesCountChange = (count: number) => {
+    setAlternativesCount(count);
+    localStorage.setItem(ALTERNATIVES_COUNT_STORAGE_KEY, String(count));
+  };
+
+  const handleToggleLiveTranslate = () => {
+    const isEnabled = !isLiveTranslateEnabled;
+    setIsLiveTranslateEnabled(isEnabled);
+    localStorage.setItem(LIVE_TRANSLATE_STORAGE_KEY, String(isEnabled));
+  };
+
+  const handleInputFormatChange = (format: InputFormat) => {
+    setInputFormat(format);
+    localStorage.setItem(INPUT_FORMAT_STORAGE_KEY, format);
+  };
+
+  const handleAdditionalTargetsChange = (languages: LanguageCode[]) => {
+    setAdditionalTargetLanguages(languages);
+    localStorage.setItem(ADDITIONAL_TARGETS_STORAGE_KEY, JSON.stringify(languages));
+  };
+
+  /** Re-translates a single aligned sentence without touching the rest of the translation. */
+  const handleRetranslateSegment = async (index: number) => {
+    const segment = alignedSegments[index];
+    if (!segment || isTranslating || translatingSegmentIndex !== null) return;
+
+    const requestIdAtStart = translationRequestIdRef.current;
+    const abortController = new AbortController();
+    segmentAbortControllerRef.current = abortController;
+    const protectedSegment = protectFormatting(segment.sourceText, inputFormat);
+    const preparedSegment = withFormatProtection(protectedSegment, prepareGlossaryText(
+      protectedSegment.text,
+      selectGlossaryForPair(glossary, requestSourceLanguage, targetLanguage),
+      { useServerGlossary: supportsGlossary }
+    ));
+    setTranslatingSegmentIndex(index);
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: `Translation API request failed: ${response.statusText} (${response.status})` }));
-        throw new Error(errorData.error || `Translation API request failed: ${response.statusText} (${response.status})`);
+    try {
+      const result = await translationLimiter(() => apiClient.translateText({
+        text: preparedSegment.text,
+        sourceLanguage: requestSourceLanguage,
+        targetLanguage,
+        glossary: preparedSegment.serverGlossary,
+        ...getTranslationRequestOptions(
+          selectTranslationOptionsForPair(translationOptions, requestSourceLanguage, targetLanguage),
+          targetLanguage
+        ),
+      }, { signal: abortController.signal }), abortController.signal);
+      if (requestIdAtStart === translationRequestIdRef.current) {
+        const segmentTranslation = preparedSegment.restore(result.translatedText);
+        // Only this sentence is new machine output: post-edits elsewhere stay edits against the baseline.
+        setEditedTranslation(replaceAlignedSegment(alignedSegments, index, segmentTranslation));
+        setMachineTranslation(replaceAlignedSegment(
+          alignSentences(sourceText, machineTranslation, resolvedSourceLanguage, targetLanguage),
+          index,
+          segmentTranslation
+        ));
+        setIsTranslationFromCache(false);
+        recordInTranslationMemory(segment.sourceText, segmentTranslation, resolvedSourceLanguage, targetLanguage, 'translation');
       }
-      
-      const result: TranslateTextOutput = await response.json();
-      setTranslatedText(result.translatedText);
     } catch (error) {
-      console.error('Translation error:', error);
-      let description = 'An unexpected error occurred during translation.';
-      if (error instanceof TypeError && error.message.toLowerCase().includes('failed to fetch')) {
-        description = `Failed to connect to the translation service. Ensure the API server at ${API_BASE_URL} is running, accessible, and CORS is configured.`;
-      } else if (error instanceof Error) {
-        description = `Translation error: ${error.message}. Check console and API server logs.`;
+      if (!isAbortError(error)) {
+        console.error('Segment translation error:', error);
+        const description = describeApiError(error, 'translation service', 'Translation error');
+        toast({ title: 'Re-translation Failed', description, variant: 'destructive' });
       }
-      toast({ title: 'Translation Failed', description, variant: 'destructive' });
-      setTranslatedText('');
     } finally {
-      setIsTranslating(false);
-      throttleTimeoutRef.current = setTimeout(() => {
-        setIsThrottled(false);
-      }, THROTTLE_DURATION);
+      if (segmentAbortControllerRef.current === abortController) {
+        segmentAbortControllerRef.current = null;
+        setTranslatingSegmentIndex(null);
+      }
     }
-  }, [sourceText, sourceLanguage, targetLanguage, toast, isThrottled, isTranslating]);
+  };
 
+  /** Uses the translation memory's matches as the translation, skipping the API call. */
+  const handleAcceptMemoryMatches = () => {
+    if (memorySegments.length === 0 || memorySegments.some(segment => !segment.match)) return;
+    const memoryTranslation = memorySegments
+      .map(segment => (segment.match?.entry.targetText ?? '') + segment.trailing)
+      .join('')
+      .trim();
+    cancelPendingTranslation();
+    setTranslatedText(memoryTranslation);
+    setEnhanceCardResetKey(prev => prev + 1);
+    recordTranslationInHistory({
+      sourceText,
+      sourceLanguage: resolvedSourceLanguage,
+      targetLanguage,
+      translatedText: memoryTranslation,
+    }, null);
+    toast({ title: 'Translation Memory Applied', description: 'Used stored translations without calling the API.' });
+  };
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.ctrlKey && event.key === 'Enter') {
         event.preventDefault();
-        if (sourceText.trim() && !isTranslating && !isThrottled) {
+        if (sourceText.trim() && !isTranslating) {
            handleTranslateText();
         }
       }
@@ -183,222 +878,86 @@ export default function App() {
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [handleTranslateText, sourceText, isTranslating, isThrottled]);
-
-  const playAudio = useCallback(
-    (audioSrc: string, onLoadingChange: (loading: boolean) => void) => {
-      if (!audioSrc) {
-        onLoadingChange(false); // Ensure loading stops if src is empty
-        return;
-      }
-
-      onLoadingChange(true);
-
-      // Handle raw PCM base64: audio/L16
-      if (audioSrc.startsWith("data:audio/L16")) {
-        const parts = audioSrc.split(';');
-        const base64Part = parts.find(part => part.startsWith('base64,'));
-        if (!base64Part) {
-          console.error("Invalid L16 data URI: missing base64 part");
-          toast({ title: 'PCM Playback Error', description: 'Invalid L16 audio data format.', variant: 'destructive' });
-          onLoadingChange(false);
-          return;
-        }
-        const base64 = base64Part.substring('base64,'.length);
-        
-        let sampleRate = 24000; // Default
-        const ratePart = parts.find(part => part.startsWith('rate='));
-        if (ratePart) {
-            const rateVal = parseInt(ratePart.split('=')[1]);
-            if (!isNaN(rateVal)) sampleRate = rateVal;
-        }
-        
-
-        const playRawPCM = async () => {
-          const AudioContextClass = window.AudioContext || (typeof window !== 'undefined' && (window as unknown as { webkitAudioContext?: typeof window.AudioContext }).webkitAudioContext);
-          if (!AudioContextClass) {
-            toast({ title: 'Playback Error', description: 'Web Audio API not supported by this browser.', variant: 'destructive' });
-            onLoadingChange(false);
-            return;
-          }
-          const audioContext = new AudioContextClass();
-
-          try {
-            const binaryString = atob(base64);
-            const len = binaryString.length;
-            const bytes = new Uint8Array(len);
-            for (let i = 0; i < len; i++) {
-              bytes[i] = binaryString.charCodeAt(i);
-            }
-
-            // L16 means 16-bit linear PCM, 2 bytes per sample
-            if (len % 2 !== 0) {
-                console.error("PCM data length is not a multiple of 2, indicating malformed 16-bit audio.");
-                toast({ title: 'PCM Playback Error', description: 'Malformed L16 audio data (odd length).', variant: 'destructive' });
-                onLoadingChange(false);
-                audioContext.close();
-                return;
-            }
-            const numSamples = len / 2; 
-            const buffer = audioContext.createBuffer(1, numSamples, sampleRate); // 1 channel (mono)
-            const channelData = buffer.getChannelData(0);
-
-            for (let i = 0; i < numSamples; i++) {
-              // Assuming little-endian 16-bit signed PCM
-              const sample = (bytes[i * 2 + 1] << 8) | bytes[i * 2]; // LSB first
-              // Convert to signed 16-bit
-              const signedSample = sample > 32767 ? sample - 65536 : sample;
-              // Normalize to [-1.0, 1.0]
-              channelData[i] = signedSample / 32768.0;
-            }
-
-            const source = audioContext.createBufferSource();
-            source.buffer = buffer;
-            source.connect(audioContext.destination);
-
-            source.onended = () => {
-                onLoadingChange(false);
-                audioContext.close(); // Clean up AudioContext
-            };
-            source.start();
-          } catch (err) {
-            console.error("Error playing raw PCM:", err);
-            toast({
-              title: 'PCM Playback Error',
-              description: `Failed to decode and play PCM audio. ${err instanceof Error ? err.message : ''}`.trim(),
-              variant: 'destructive'
-            });
-            onLoadingChange(false);
-            audioContext.close(); // Clean up AudioContext
-          }
-        };
-
-        playRawPCM();
-      }
-      // Handle regular audio sources (e.g. data URI for MP3/WAV, or blob URL)
-      else if (audioPlayerRef.current) {
-        const currentAudioElement = audioPlayerRef.current;
-        
-        // If the new src is the same as the old one and it's playing, pause and restart
-        // (or just play if paused)
-        if (currentAudioElement.src === audioSrc && !currentAudioElement.paused) {
-            currentAudioElement.pause();
-            currentAudioElement.currentTime = 0;
-        } else if (currentAudioElement.src === audioSrc && currentAudioElement.paused) {
-            // Already loaded, just play
-        } else {
-            // New src or different src
-            currentAudioElement.src = audioSrc;
-            currentAudioElement.load(); 
-        }
-        
-        currentAudioElement.play()
-          .then(() => {
-             // onLoadingChange(false); // Handled by onplaying or other events
-          })
-          .catch(err => {
-            console.error("Error playing audio:", err);
-            toast({
-              title: 'Playback Error',
-              description: `Could not play audio. Ensure API serves valid audio and check browser console. Source (first 50 chars): ${audioSrc.substring(0,50)}...`,
-              variant: 'destructive'
-            });
-            onLoadingChange(false);
-          });
-
-        currentAudioElement.onended = () => {
-          onLoadingChange(false);
-        };
-        currentAudioElement.onplaying = () => { 
-          onLoadingChange(false);
-        };
-        currentAudioElement.onerror = (e) => {
-          console.error("Audio element error for src:", audioSrc, e);
-          const error = currentAudioElement.error;
-          let message = 'The audio element encountered an error.';
-          if (error) {
-            switch (error.code) {
-                case MediaError.MEDIA_ERR_ABORTED: message = 'Audio playback aborted by the user.'; break;
-                case MediaError.MEDIA_ERR_NETWORK: message = 'A network error caused audio download to fail.'; break;
-                case MediaError.MEDIA_ERR_DECODE: message = 'Audio playback aborted due to a decoding problem.'; break;
-                case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED: message = 'The audio format is not supported.'; break;
-                default: message = 'An unknown audio error occurred.';
-            }
-          }
-          toast({
-              title: 'Audio Element Error',
-              description: message,
-              variant: 'destructive'
-          });
-          onLoadingChange(false);
-        };
-      } else {
-        onLoadingChange(false); // Fallback if audioPlayerRef.current is null
-      }
-    },
-    [toast]
-  );
+  }, [handleTranslateText, sourceText, isTranslating]);
 
   const handleTextToSpeech = useCallback(async (
     text: string,
     language: LanguageCode,
+    ownerId: string,
     isLoadingSetter: React.Dispatch<React.SetStateAction<boolean>>
   ) => {
     if (!text.trim()) {
       isLoadingSetter(false);
       return;
     }
+    if (!hasLanguageCapability(language, 'tts')) {
+      toast({ title: 'Text-to-Speech Unavailable', description: `Text-to-speech is not available for ${getLanguageLabel(language)}.`, variant: 'default' });
+      isLoadingSetter(false);
+      return;
+    }
     isLoadingSetter(true);
+    const voicePreference = selectVoicePreference(voicePreferences, language);
+    // Browser voices are spoken on this device; if the voice has gone, the server default speaks instead.
+    const utterance = createBrowserUtterance(text, language, voicePreference);
+    if (utterance) {
+      try {
+        await audioPlayer.speak(utterance, ownerId);
+      } catch (error) {
+        console.error('Speech synthesis error:', error);
+        toast({ title: 'Playback Error', description: 'The browser could not speak this text.', variant: 'destructive' });
+      }
+      isLoadingSetter(false);
+      return;
+    }
     try {
-      const response = await fetch(`${API_BASE_URL}/api/text-to-speech`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text, language }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: `TTS API request failed: ${response.statusText} (${response.status})` }));
-        // Instead of throwing, just show toast and return
-        toast({ title: 'Text-to-Speech Failed', description: errorData.error || `TTS API request failed: ${response.statusText} (${response.status})`, variant: 'destructive' });
-        isLoadingSetter(false);
-        return;
+      const voiceOptions = getVoiceRequestOptions(voicePreference);
+      const cacheKey = makeSpeechCacheKey(text, language, getVoiceCacheVariant(voiceOptions));
+      let result = await speechCache.getSpeech(cacheKey);
+      if (!result) {
+        result = await apiClient.textToSpeech({ text, language, ...voiceOptions });
+        speechCache.storeSpeech(cacheKey, result);
       }
-      
-      const result: TextToSpeechApiResponse = await response.json();
-
-      if (!result.audioDataUri || !(result.audioDataUri.startsWith('data:audio') || result.audioDataUri.startsWith('blob:'))) {
-        console.error("Received invalid audioDataUri from server:", result.audioDataUri);
-        toast({ title: 'Text-to-Speech Failed', description: "Received invalid or missing audio data URI from server.", variant: 'destructive' });
-        isLoadingSetter(false);
-        return;
+      const { audioDataUri, wordTimestamps } = result;
+      setSpeechClips(clips => ({ ...clips, [ownerId]: { audioDataUri, text, language, wordTimestamps } }));
+      try {
+        await audioPlayer.load(audioDataUri, ownerId);
+      } catch (error) {
+        console.error('Audio playback error:', error);
+        toast({ title: 'Playback Error', description: error instanceof Error ? error.message : 'Could not play audio.', variant: 'destructive' });
       }
-      playAudio(result.audioDataUri, isLoadingSetter);
-
+      isLoadingSetter(false);
     } catch (error) {
       console.error('Text-to-speech error:', error);
-      let description = 'An unexpected error occurred during text-to-speech.';
-      
-      if (error instanceof TypeError && error.message.toLowerCase().includes('failed to fetch')) {
-        description = `Failed to connect to the TTS service. Ensure API server at ${API_BASE_URL} is running, accessible, and CORS is configured.`;
-      } else if (error instanceof Error) {
-        if (error.message.includes("GoogleGenerativeAI Error") && error.message.includes("500 Internal Server Error")) {
-          description = "The AI text-to-speech service encountered an internal error. This might be temporary. Please try again in a few moments.";
-        } else if (error.message.toLowerCase().includes('failed to connect to the tts service')) {
-           description = `Failed to connect to the TTS service. Ensure API server at ${API_BASE_URL} is running, serving audio, and CORS is configured.`;
-        } else {
-          description = `Text-to-speech error: ${error.message}. Check console and API server logs.`;
-        }
+      let description = describeApiError(error, 'TTS service', 'Text-to-speech error');
+      if (error instanceof Error && error.message.includes("GoogleGenerativeAI Error") && error.message.includes("500 Internal Server Error")) {
+        description = "The AI text-to-speech service encountered an internal error. This might be temporary. Please try again in a few moments.";
       }
       toast({ title: 'Text-to-Speech Failed', description, variant: 'destructive' });
       isLoadingSetter(false);
     }
-  }, [playAudio, toast]);
+  }, [audioPlayer, toast, apiClient, speechCache, voicePreferences]);
+
+  const handleDownloadSpeech = useCallback(async (ownerId: string) => {
+    const clip = speechClips[ownerId];
+    if (!clip) return;
+    try {
+      const { blob, fileName } = await createSpeechFile(clip);
+      downloadBlob(blob, fileName);
+    } catch (error) {
+      console.error('Speech download error:', error);
+      toast({ title: 'Download Failed', description: error instanceof Error ? error.message : 'Could not save the audio.', variant: 'destructive' });
+    }
+  }, [speechClips, toast]);
 
   const startRecording = async () => {
+    if (!hasLanguageCapability(resolvedSourceLanguage, 'stt')) {
+      toast({ title: 'Speech Recognition Unavailable', description: `Speech recognition is not available for ${getLanguageLabel(resolvedSourceLanguage)}.`, variant: 'default' });
+      return;
+    }
     if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
       try {
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        const sttSourceLanguage = sourceLanguage; 
+        const sttSourceLanguage = resolvedSourceLanguage; 
         const sttTargetLanguage = targetLanguage; 
 
         mediaRecorderRef.current = new MediaRecorder(stream, { mimeType: 'audio/webm' });
@@ -412,39 +971,21 @@ export default function App() {
           reader.onloadend = async () => {
             const audioDataUri = reader.result as string;
             try {
-              const response = await fetch(`${API_BASE_URL}/api/speech-to-text`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ audioDataUri, sourceLanguage: sttSourceLanguage, targetLanguage: sttTargetLanguage }),
-              });
-
-              if (!response.ok) {
-                const errorData = await response.json().catch(() => ({ error: `STT API request failed: ${response.statusText} (${response.status})` }));
-                throw new Error(errorData.error || `STT API request failed: ${response.statusText} (${response.status})`);
-              }
-              const result: SpeechToTextOutput = await response.json();
-              const words = result.transcription.trim() === '' ? [] : result.transcription.trim().split(/\s+/);
-              let currentWordCount = words.length;
-              let textToSet = result.transcription;
-              if (currentWordCount > WORD_LIMIT) {
-                textToSet = words.slice(0, WORD_LIMIT).join(' ');
-                currentWordCount = WORD_LIMIT;
-                toast({ title: "Word limit reached from speech", description: `Transcribed text limited to ${WORD_LIMIT} words.`, variant: "default" });
-              }
+              const result = await apiClient.speechToText({ audioDataUri, sourceLanguage: sttSourceLanguage, targetLanguage: sttTargetLanguage });
+              const textToSet = result.transcription;
               setSourceText(textToSet);
-              setSourceWordCount(currentWordCount);
+              setSourceWordCount(countWords(textToSet));
+              if (sourceLanguage === 'auto') {
+                setDetectedSourceLanguage(detectLanguage(textToSet));
+              }
               setEnhanceCardResetKey(prev => prev + 1);
+              cancelPendingTranslation();
               setTranslatedText(''); 
 
               toast({ title: 'Speech Recognized', description: 'Text updated from your speech.'});
             } catch (error) {
               console.error('Speech-to-text error:', error);
-              let description = 'An unexpected error occurred during speech recognition.';
-              if (error instanceof TypeError && error.message.toLowerCase().includes('failed to fetch')) {
-                description = `Failed to connect to the speech recognition service. Ensure API server at ${API_BASE_URL} is running, accessible, and CORS is configured.`;
-              } else if (error instanceof Error) {
-                description = `Speech recognition error: ${error.message}. Check console and API server logs.`;
-              }
+              const description = describeApiError(error, 'speech recognition service', 'Speech recognition error');
               toast({ title: 'Speech Recognition Failed', description, variant: 'destructive' });
             } finally {
               setIsProcessingAudio(false);
@@ -483,7 +1024,10 @@ export default function App() {
 
   const handleSwapLanguages = () => {
     const textBeforeSwapTarget = translatedText;
-    const langBeforeSwapSource = sourceLanguage;
+    // "Auto-detect" cannot be a target, so swap in whatever was detected for the source text.
+    const langBeforeSwapSource = sourceLanguage === 'auto'
+      ? detectedSourceLanguage ?? detectLanguage(sourceText) ?? 'en'
+      : sourceLanguage;
     const langBeforeSwapTarget = targetLanguage;
 
     const newSourceLang = langBeforeSwapTarget;
@@ -491,19 +1035,12 @@ export default function App() {
 
     setSourceLanguage(newSourceLang);
     setTargetLanguage(newTargetLang);
+    setDetectedSourceLanguage(null);
 
-    const words = textBeforeSwapTarget.trim() === '' ? [] : textBeforeSwapTarget.trim().split(/\s+/);
-    let currentWordCount = words.length;
-    let textToSetAsSource = textBeforeSwapTarget;
-
-    if (currentWordCount > WORD_LIMIT) {
-      textToSetAsSource = words.slice(0, WORD_LIMIT).join(' ');
-      currentWordCount = WORD_LIMIT;
-      toast({ title: "Word limit applied on swap", description: `Text limited to ${WORD_LIMIT} words.`, variant: "default" });
-    }
+    const textToSetAsSource = textBeforeSwapTarget;
 
     setSourceText(textToSetAsSource);
-    setSourceWordCount(currentWordCount);
+    setSourceWordCount(countWords(textToSetAsSource));
     setEnhanceCardResetKey(prev => prev + 1);
 
     if (textToSetAsSource.trim() && newSourceLang !== newTargetLang) {
@@ -534,29 +1071,12 @@ export default function App() {
       return;
     }
     try {
-      const response = await fetch(`${API_BASE_URL}/api/get-word-details`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ word: cleanedWord, language }),
-      });
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: `Word details API request failed: ${response.statusText} (${response.status})` }));
-        throw new Error(errorData.error || `Word details API request failed: ${response.statusText} (${response.status})`);
-      }
-      const result: GetWordDetailsOutput = await response.json();
-      if (result.ipaPronunciation === undefined) {
-        result.ipaPronunciation = '';
-      }
+      const result = await apiClient.getWordDetails({ word: cleanedWord, language });
       setCurrentWordDetails(result);
       dispatch(setWordDetails({ key: cacheKey, details: result }));
     } catch (error) {
       console.error('Word definition error:', error);
-      let description = `An unexpected error occurred while fetching details for "${cleanedWord}".`;
-      if (error instanceof TypeError && error.message.toLowerCase().includes('failed to fetch')) {
-        description = `Failed to connect to the word definition service. Ensure API server at ${API_BASE_URL} is running, accessible, and CORS is configured.`;
-      } else if (error instanceof Error) {
-        description = `Word definition error for "${cleanedWord}": ${error.message}. Check console and API server logs.`;
-      }
+      const description = describeApiError(error, 'word definition service', `Word definition error for "${cleanedWord}"`);
       setCurrentWordDetails({ 
         definedWord: cleanedWord, 
         type: '', 
@@ -569,7 +1089,7 @@ export default function App() {
     } finally {
       setIsWordDetailLoading(false);
     }
-  }, [toast, wordDetailsCache, dispatch]);
+  }, [toast, wordDetailsCache, dispatch, apiClient]);
 
   const handleWordPopoverClose = useCallback(() => {
     // setActiveWordForDefinition(null); // Optionally clear active word when popover closes
@@ -583,34 +1103,79 @@ export default function App() {
   };
 
   const handleSourceTextChange = (newText: string) => {
-    const words = newText.trim() === '' ? [] : newText.trim().split(/\s+/);
-    let currentWordCount = words.length;
-    let textToUpdate = newText;
-    if (currentWordCount > WORD_LIMIT) {
-      const previousWordCount = sourceText.trim() === '' ? 0 : sourceText.trim().split(/\s+/).length;
-      textToUpdate = words.slice(0, WORD_LIMIT).join(' ');
-      currentWordCount = WORD_LIMIT;
-      if (newText.length > sourceText.length || previousWordCount < WORD_LIMIT) {
-         toast({ title: "Word limit reached", description: `Source text limited to ${WORD_LIMIT} words.`, variant: "default" });
-      }
-    }
+    const textToUpdate = newText;
     setSourceText(textToUpdate);
-    setSourceWordCount(currentWordCount);
+    setSourceWordCount(countWords(textToUpdate));
     setEnhanceCardResetKey(prev => prev + 1); 
+    const detectedLanguage = sourceLanguage === 'auto' ? detectLanguage(textToUpdate) : null;
+    setDetectedSourceLanguage(detectedLanguage);
+    const effectiveSourceLanguage = detectedLanguage ?? sourceLanguage;
 
     if (!textToUpdate.trim()) {
+      cancelPendingTranslation();
       setTranslatedText('');
-    } else if (sourceLanguage === targetLanguage) {
+    } else if (effectiveSourceLanguage === targetLanguage) {
+      cancelPendingTranslation();
       setTranslatedText(textToUpdate);
     }
   };
 
-  const handleApplyEnhancedText = (newText: string) => {
+  /**
+   * Remembers a new rendering of the current source text, attributing it to the translation the
+   * history knows about when there is one. Nothing is remembered if its source language is unknown.
+   */
+  const recordCurrentTranslationInMemory = (text: string, origin: TranslationMemoryOrigin) => {
+    const historyEntry = currentHistoryEntryRef.current;
+    const memorySourceLanguage = historyEntry?.sourceLanguage ?? resolvedSourceLanguage;
+    if (memorySourceLanguage === 'auto') return;
+    recordInTranslationMemory(
+      historyEntry?.sourceText ?? sourceText,
+      text,
+      memorySourceLanguage,
+      historyEntry?.targetLanguage ?? targetLanguage,
+      origin
+    );
+  };
+
+  const handleApplyEnhancedText = (newText: string, instruction: string) => {
     setTranslatedText(newText);
+    setIsTranslationFromCache(false);
+    const historyEntry = currentHistoryEntryRef.current;
+    recordCurrentTranslationInMemory(newText, 'enhancement');
+    if (historyEntry) {
+      translationHistory.attachEnhancement(historyEntry, { instruction, text: newText }).then(updated => {
+        if (currentHistoryEntryRef.current?.id === updated.id) {
+          currentHistoryEntryRef.current = updated;
+        }
+      });
+    }
+  };
+
+  const handleRestoreHistoryEntry = (entry: HistoryEntry) => {
+    cancelPendingTranslation();
+    setSourceLanguage(entry.sourceLanguage);
+    setTargetLanguage(entry.targetLanguage);
+    setDetectedSourceLanguage(null);
+    setSourceText(entry.sourceText);
+    setSourceWordCount(countWords(entry.sourceText));
+    setTranslatedText(entry.enhancement?.text ?? entry.translatedText);
+    setEnhanceCardResetKey(prev => prev + 1);
+    currentHistoryEntryRef.current = entry;
+    setIsHistoryOpen(false);
+    toast({ title: 'Translation Restored', description: 'Loaded from history without calling the API.' });
+  };
+
+  const handleDocumentSelect = (file: File) => {
+    if (!getDocumentFormat(file.name)) {
+      toast({ title: 'Unsupported File', description: `Upload one of: ${DOCUMENT_ACCEPT.split(',').join(', ')}.`, variant: 'destructive' });
+      return;
+    }
+    setDocumentFile(file);
   };
 
-  const handleSourceLanguageChange = (lang: LanguageCode) => {
+  const handleSourceLanguageChange = (lang: SourceLanguageCode) => {
     setSourceLanguage(lang);
+    setDetectedSourceLanguage(lang === 'auto' ? detectLanguage(sourceText) : null);
     setEnhanceCardResetKey(prev => prev + 1);
 
     if (sourceText.trim()) {
@@ -644,23 +1209,50 @@ export default function App() {
   return (
     <TooltipProvider delayDuration={100}>
       <div className="min-h-screen flex flex-col p-2 sm:p-3 md:p-4 lg:p-6 bg-background text-foreground font-sans">
-        <NavigationBar />
+        <NavigationBar onOpenHistory={() => setIsHistoryOpen(true)} onOpenGlossary={() => setIsGlossaryOpen(true)} onOpenTranslationMemory={() => setIsTranslationMemoryOpen(true)} onOpenSettings={() => setIsSettingsOpen(true)} />
 
         <main className="flex-grow flex flex-col items-center w-full mt-4">
           <Card className="w-full max-w-4xl shadow-lg rounded-xl border-slate-300 dark:border-slate-700">
             <CardContent className="p-3 sm:p-4 md:p-5 lg:p-6 flex flex-col md:flex-row gap-3 md:gap-4">
               <div className="flex flex-col gap-3 flex-1">
                 <div className="flex flex-row items-center justify-between">
-                  <h3 className="text-lg font-medium text-foreground/90 mr-4">Source</h3>
-                  <LanguageSelector value={sourceLanguage} onChange={handleSourceLanguageChange} languages={LANGUAGES} disabled={sharedPanelLoadingState || isRecording} />
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-lg font-medium text-foreground/90 mr-2">Source</h3>
+                    {sourceLanguage === 'auto' && detectedSourceLanguage && (
+                      <Badge variant="secondary" className="font-normal" aria-label="Detected source language">
+                        {getLanguageLabel(detectedSourceLanguage)}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="ml-auto mr-2 flex items-center gap-1">
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant={isLiveTranslateEnabled ? 'secondary' : 'ghost'}
+                          size="icon"
+                          className="h-9 w-9"
+                          onClick={handleToggleLiveTranslate}
+                          aria-label="Toggle live translate"
+                          aria-pressed={isLiveTranslateEnabled}
+                        >
+                          <Zap className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent><p>{isLiveTranslateEnabled ? 'Live Translate: On' : 'Live Translate: Off'}</p></TooltipContent>
+                    </Tooltip>
+                    <InputFormatMenu format={inputFormat} onFormatChange={handleInputFormatChange} disabled={isTranslating} />
+                  </div>
+                  <LanguageSelector value={sourceLanguage} onChange={handleSourceLanguageChange} languages={LANGUAGES} leadingOption={AUTO_DETECT_LANGUAGE} requiredCapability="translate" disabled={sharedPanelLoadingState || isRecording} />
                 </div>
                 <LanguagePanel
                   id="source-text-area"
                   text={sourceText}
                   onTextChange={handleSourceTextChange}
-                  currentLanguageForTTS={sourceLanguage}
-                  onSpeak={() => handleTextToSpeech(sourceText, sourceLanguage, setIsLoadingSourceTTS)}
-                  onClear={() => { setSourceText(''); setTranslatedText(''); setSourceWordCount(0); setEnhanceCardResetKey(prev => prev + 1);}}
+                  currentLanguageForTTS={resolvedSourceLanguage}
+                  onSpeak={() => handleTextToSpeech(sourceText, resolvedSourceLanguage, 'source-text-area', setIsLoadingSourceTTS)}
+                  onDownloadAudio={speechClips['source-text-area'] ? () => handleDownloadSpeech('source-text-area') : undefined}
+                  spokenWordTimestamps={speechClips['source-text-area']?.wordTimestamps}
+                  onClear={() => { cancelPendingTranslation(); setSourceText(''); setTranslatedText(''); setSourceWordCount(0); setEnhanceCardResetKey(prev => prev + 1);}}
                   placeholder="Enter text or use microphone..."
                   isLoadingSpeak={isLoadingSourceTTS}
                   showSpeakButton={true}
@@ -671,7 +1263,9 @@ export default function App() {
                   isProcessingAudio={isProcessingAudio}
                   isWordDefinitionEnabled={false}
                   wordCount={sourceWordCount}
-                  wordLimit={WORD_LIMIT}
+                  wordLimit={wordLimit}
+                  onFileSelect={handleDocumentSelect}
+                  acceptedFileTypes={DOCUMENT_ACCEPT}
                  />
               </div>
 
@@ -682,24 +1276,37 @@ export default function App() {
                           <Button
                               size="icon"
                               onClick={() => handleTranslateText()}
-                              disabled={isTranslating || sharedPanelLoadingState || isRecording || isThrottled || !sourceText.trim() }
+                              disabled={isTranslating || sharedPanelLoadingState || isRecording || !sourceText.trim() }
                               className="rounded-md p-2 shadow-sm hover:shadow-md transition-all"
-                              aria-label="Translate text"
+                              aria-label={secondsUntilUnblocked > 0 ? `Translate text (rate limited, ${secondsUntilUnblocked} seconds left)` : "Translate text"}
                           >
                             <div className="flex items-center justify-center">
-                                {isMobile ? <Languages className="h-5 w-5 text-primary-foreground" /> : <ArrowRight className="h-5 w-5 text-primary-foreground" />}
+                                {secondsUntilUnblocked > 0 ? (
+                                  <span className="text-xs font-semibold tabular-nums text-primary-foreground">{secondsUntilUnblocked}s</span>
+                                ) : isMobile ? <Languages className="h-5 w-5 text-primary-foreground" /> : <ArrowRight className="h-5 w-5 text-primary-foreground" />}
                             </div>
                           </Button>
                       </TooltipTrigger>
-                      <TooltipContent><p>Translate (Ctrl+Enter)</p></TooltipContent>
+                      <TooltipContent>
+                        {secondsUntilUnblocked > 0 ? (
+                          <p>
+                            The server asked to slow down. {queuedRequests > 0 ? `${queuedRequests} queued ${queuedRequests === 1 ? 'request is' : 'requests are'}` : 'Requests are'} sent in {secondsUntilUnblocked}s.
+                          </p>
+                        ) : <p>Translate (Ctrl+Enter)</p>}
+                      </TooltipContent>
                     </Tooltip>
+                    <TranslationOptionsPopover
+                      sourceLanguage={resolvedSourceLanguage}
+                      targetLanguage={targetLanguage}
+                      disabled={isRecording}
+                    />
                     <Tooltip>
                         <TooltipTrigger asChild>
                         <Button
                             variant="outline"
                             size="icon"
                             onClick={handleSwapLanguages}
-                            disabled={isTranslating || sharedPanelLoadingState || isRecording || isThrottled }
+                            disabled={isTranslating || sharedPanelLoadingState || isRecording }
                             className="rounded-md p-2 shadow-sm hover:bg-accent hover:shadow-md transition-all"
                             aria-label="Swap languages and text"
                         >
@@ -720,15 +1327,63 @@ export default function App() {
                       <Loader2 className="h-5 w-5 animate-spin text-primary" />
                     )}
                   </div>
-                  <LanguageSelector value={targetLanguage} onChange={handleTargetLanguageChange} languages={LANGUAGES} disabled={sharedPanelLoadingState || isRecording || isTranslating} />
+                  <div className="ml-auto mr-2 flex items-center gap-1">
+                    <AlternativesCountMenu count={alternativesCount} onCountChange={handleAlternativesCountChange} disabled={isTranslating} />
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-9 w-9"
+                          onClick={handleVerifyTranslation}
+                          disabled={isTranslating || !translatedText.trim() || resolvedSourceLanguage === targetLanguage}
+                          aria-label="Verify translation by back-translating it"
+                        >
+                          <ShieldCheck className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent><p>Verify (Back-Translate)</p></TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant={isAlignedViewOpen ? 'secondary' : 'ghost'}
+                          size="icon"
+                          className="h-9 w-9"
+                          onClick={() => setIsAlignedViewOpen(prev => !prev)}
+                          aria-label="Toggle aligned view"
+                          aria-pressed={isAlignedViewOpen}
+                        >
+                          <Rows3 className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent><p>Aligned View</p></TooltipContent>
+                    </Tooltip>
+                  </div>
+                  <TargetLanguagesPicker
+                    selected={additionalTargetLanguages}
+                    onChange={handleAdditionalTargetsChange}
+                    primaryTarget={targetLanguage}
+                    disabled={sharedPanelLoadingState || isRecording}
+                  />
+                  <LanguageSelector value={targetLanguage} onChange={handleTargetLanguageChange} languages={LANGUAGES} requiredCapability="translate" disabled={sharedPanelLoadingState || isRecording} />
                 </div>
+                <TranslationAlternativesSwitcher
+                  options={translationAlternatives}
+                  selectedIndex={selectedAlternativeIndex}
+                  onSelect={handleSelectAlternative}
+                  disabled={isTranslating}
+                />
                 <LanguagePanel
                   id="translated-text-area"
                   text={translatedText}
                   currentLanguageForTTS={targetLanguage}
-                  onSpeak={() => handleTextToSpeech(translatedText, targetLanguage, setIsLoadingTargetTTS)}
+                  onSpeak={() => handleTextToSpeech(translatedText, targetLanguage, 'translated-text-area', setIsLoadingTargetTTS)}
+                  onDownloadAudio={speechClips['translated-text-area'] ? () => handleDownloadSpeech('translated-text-area') : undefined}
+                  spokenWordTimestamps={speechClips['translated-text-area']?.wordTimestamps}
                   onCopy={() => handleCopy(translatedText)}
-                  isReadOnly={true}
+                  onTextChange={isEditingTranslation ? setEditedTranslation : undefined}
+                  isReadOnly={!isEditingTranslation}
                   placeholder="Translation appears here..."
                   isLoadingSpeak={isLoadingTargetTTS}
                   isLoadingText={isTranslating} 
@@ -736,36 +1391,160 @@ export default function App() {
                   showSpeakButton={true}
                   showClearButton={false} 
                   showRecordButton={false}
-                  isWordDefinitionEnabled={true}
+                  isWordDefinitionEnabled={!isStreamingTranslation}
                   onWordClick={handleWordDefinition}
                   activeWordForDefinition={activeWordForDefinition}
                   wordDetails={currentWordDetails}
                   isWordDetailLoading={isWordDetailLoading}
                   onWordPopoverClose={handleWordPopoverClose}
+                  isServedFromCache={isTranslationFromCache}
+                  highlightTerms={glossaryHighlightTerms}
+                  onToggleEditing={handleToggleTranslationEditing}
+                  isEditing={isEditingTranslation}
+                  onFetchPhraseAlternatives={handleFetchPhraseAlternatives}
+                  onReplacePhrase={handleReplacePhrase}
                 />
+                {!isStreamingTranslation && machineTranslation && translatedText !== machineTranslation && (
+                  <PostEditSummary
+                    machineText={machineTranslation}
+                    editedText={translatedText}
+                    onRevert={() => setEditedTranslation(machineTranslation)}
+                    disabled={isTranslating}
+                  />
+                )}
+                {!isStreamingTranslation && !isTranslating && (
+                  <ProtectedItemMismatchNotice mismatches={protectedItemMismatches} />
+                )}
+                {!isStreamingTranslation && (
+                  <TranslationMemorySuggestions
+                    segments={memorySegments}
+                    onAccept={handleAcceptMemoryMatches}
+                    disabled={isTranslating}
+                  />
+                )}
+                {translationChunks.length > 1 && (
+                  <TranslationChunkStatus chunks={translationChunks} onRetryFailed={handleRetryFailedChunks} />
+                )}
               </div>
             </CardContent>
           </Card>
 
-          {translatedText.trim() && (
+          {targetTranslations.length > 0 && (
+            <div className="mt-4 md:mt-6 w-full max-w-4xl grid gap-4 sm:grid-cols-2">
+              {targetTranslations.map(translation => (
+                <TargetTranslationCard
+                  key={translation.language}
+                  panelId={getTargetPanelId(translation.language)}
+                  translation={translation}
+                  onRetry={() => retryAdditionalTarget(translation.language)}
+                  onRemove={() => handleAdditionalTargetsChange(additionalTargetLanguages.filter(language => language !== translation.language))}
+                  onSpeak={handleTextToSpeech}
+                  onDownloadAudio={speechClips[getTargetPanelId(translation.language)] ? () => handleDownloadSpeech(getTargetPanelId(translation.language)) : undefined}
+                  spokenWordTimestamps={speechClips[getTargetPanelId(translation.language)]?.wordTimestamps}
+                  onCopy={handleCopy}
+                  onWordClick={handleWordDefinition}
+                  activeWordForDefinition={activeWordForDefinition}
+                  wordDetails={currentWordDetails}
+                  isWordDetailLoading={isWordDetailLoading}
+                  onWordPopoverClose={handleWordPopoverClose}
+                />
+              ))}
+            </div>
+          )}
+
+          {isAlignedViewOpen && (
+            <AlignedTranslationView
+              className="mt-4 md:mt-6 w-full max-w-4xl"
+              segments={alignedSegments}
+              sourceLanguage={resolvedSourceLanguage}
+              targetLanguage={targetLanguage}
+              translatingSegmentIndex={translatingSegmentIndex}
+              disabled={isTranslating}
+              onRetranslateSegment={handleRetranslateSegment}
+              onEditSegment={handleEditSegment}
+              onClose={() => setIsAlignedViewOpen(false)}
+            />
+          )}
+
+          {backTranslationCheck && (
+            <BackTranslationCard
+              key={backTranslationCheck.id}
+              className="mt-4 md:mt-6 w-full max-w-4xl"
+              sourceText={backTranslationCheck.sourceText}
+              translatedText={backTranslationCheck.translatedText}
+              sourceLanguage={backTranslationCheck.sourceLanguage}
+              targetLanguage={backTranslationCheck.targetLanguage}
+              wordLimit={wordLimit}
+              maxConcurrentRequests={maxConcurrentRequests}
+              limiter={translationLimiter}
+              onDismiss={() => setBackTranslationCheck(null)}
+            />
+          )}
+
+          {documentFile && (
+            <DocumentTranslationCard
+              key={`${documentFile.name}-${documentFile.lastModified}`}
+              className="mt-4 md:mt-6 w-full max-w-4xl"
+              file={documentFile}
+              sourceLanguage={sourceLanguage}
+              targetLanguage={targetLanguage}
+              wordLimit={wordLimit}
+              supportsGlossary={supportsGlossary}
+              limiter={translationLimiter}
+              onDismiss={() => setDocumentFile(null)}
+            />
+          )}
+
+          {translatedText.trim() && !isStreamingTranslation && (
              <EnhanceCard
               key={enhanceCardResetKey}
               className="mt-4 md:mt-6 w-full max-w-4xl"
               originalSourceText={sourceText}
               currentTranslatedText={translatedText} 
-              sourceLanguage={sourceLanguage}
+              sourceLanguage={resolvedSourceLanguage}
               targetLanguage={targetLanguage}
               onApplyText={handleApplyEnhancedText}
-              apiBaseUrl={API_BASE_URL}
             />
           )}
         </main>
 
         <ShortcutModal isOpen={isShortcutModalOpen} onOpenChange={setIsShortcutModalOpen} />
+        <TranslationMemorySheet
+          isOpen={isTranslationMemoryOpen}
+          onOpenChange={setIsTranslationMemoryOpen}
+          entries={translationMemory.entries}
+          threshold={translationMemory.threshold}
+          onThresholdChange={translationMemory.setThreshold}
+          onImport={translationMemory.importEntries}
+          onDelete={translationMemory.removeEntry}
+          onClearAll={translationMemory.clearEntries}
+        />
+        <SettingsSheet
+          isOpen={isSettingsOpen}
+          onOpenChange={setIsSettingsOpen}
+          voiceLanguage={hasLanguageCapability(targetLanguage, 'tts') ? targetLanguage : resolvedSourceLanguage}
+          speechCacheStats={speechCache.stats}
+          onRefreshSpeechCacheStats={speechCache.refreshStats}
+          onPurgeSpeechCache={speechCache.purge}
+        />
+        <GlossarySheet
+          isOpen={isGlossaryOpen}
+          onOpenChange={setIsGlossaryOpen}
+          sourceLanguage={resolvedSourceLanguage}
+          targetLanguage={targetLanguage}
+        />
+        <HistorySheet
+          isOpen={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          entries={translationHistory.entries}
+          onRestore={handleRestoreHistoryEntry}
+          onDelete={translationHistory.removeEntry}
+          onClearAll={translationHistory.clearEntries}
+        />
 
         <footer className="text-center mt-6 md:mt-10 py-3 text-xs md:text-sm text-muted-foreground">
           <p>&copy; {new Date().getFullYear()} LinguaCraft. AI-Powered Translation.</p>
-          <p className="text-xs">Click on a word in the translated text to see its details. Source text limited to {WORD_LIMIT} words.</p>
+          <p className="text-xs">Click on a word in the translated text to see its details. Longer texts are translated in chunks of {wordLimit} words.</p>
           <p className="text-xs">Press Ctrl + ? to view keyboard shortcuts. Press Ctrl + Enter to translate.</p>
         </footer>
 
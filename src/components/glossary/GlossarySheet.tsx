@@ -0,0 +1,218 @@
+/**
+ * @fileOverview GlossarySheet.tsx - Side sheet for managing glossary term pairs and
+ * do-not-translate terms per language pair, with CSV and TBX import/export.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowRight, BookMarked, Download, Plus, ShieldCheck, Trash2, Upload } from 'lucide-react';
+import { LanguageSelector } from '@/components/translation/LanguageSelector';
+import { useToast } from '@/hooks/use-toast';
+import type { LanguageCode } from '@/lib/languages';
+import { LANGUAGES } from '@/lib/languages';
+import { exportGlossaryCsv, exportGlossaryTbx, parseGlossaryCsv, parseGlossaryTbx } from '@/lib/glossary';
+import { downloadBlob } from '@/lib/download';
+import type { RootState } from '@/store/store';
+import { removeGlossaryEntry, selectGlossaryForPair, upsertGlossaryEntries } from '@/store/slices/glossarySlice';
+
+interface GlossarySheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  /** Language pair shown when the sheet opens; usually the pair currently being translated. */
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+}
+
+export function GlossarySheet({ isOpen, onOpenChange, sourceLanguage, targetLanguage }: GlossarySheetProps) {
+  const [pairSource, setPairSource] = useState<LanguageCode>(sourceLanguage);
+  const [pairTarget, setPairTarget] = useState<LanguageCode>(targetLanguage);
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const { toast } = useToast();
+  const dispatch = useDispatch();
+  const glossary = useSelector((state: RootState) => state.glossary);
+  const pairEntries = useMemo(
+    () => selectGlossaryForPair(glossary, pairSource, pairTarget)
+      .slice()
+      .sort((a, b) => a.sourceTerm.localeCompare(b.sourceTerm)),
+    [glossary, pairSource, pairTarget]
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      setPairSource(sourceLanguage);
+      setPairTarget(targetLanguage);
+    }
+  }, [isOpen, sourceLanguage, targetLanguage]);
+
+  const canAdd = sourceTerm.trim() !== '' && (doNotTranslate || targetTerm.trim() !== '') && pairSource !== pairTarget;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    const term = sourceTerm.trim();
+    dispatch(upsertGlossaryEntries([{
+      sourceLanguage: pairSource,
+      targetLanguage: pairTarget,
+      sourceTerm: term,
+      targetTerm: doNotTranslate ? term : targetTerm.trim(),
+      doNotTranslate,
+      caseSensitive,
+    }]));
+    setSourceTerm('');
+    setTargetTerm('');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const content = await file.text();
+      const pair = { sourceLanguage: pairSource, targetLanguage: pairTarget };
+      const isTbx = /\.(tbx|xml)$/i.test(file.name) || content.trimStart().startsWith('<');
+      const imported = (isTbx ? parseGlossaryTbx(content, pair) : parseGlossaryCsv(content, pair))
+        .filter(entry => entry.sourceLanguage !== entry.targetLanguage);
+      if (imported.length === 0) {
+        toast({ title: 'Nothing Imported', description: `No glossary terms were found in ${file.name}.`, variant: 'destructive' });
+        return;
+      }
+      dispatch(upsertGlossaryEntries(imported));
+      toast({ title: 'Glossary Imported', description: `${imported.length} terms imported from ${file.name}.` });
+    } catch (error) {
+      console.error('Glossary import error:', error);
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'The glossary file could not be read.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'tbx') => {
+    if (format === 'csv') {
+      downloadBlob(new Blob([exportGlossaryCsv(glossary.entries)], { type: 'text/csv;charset=utf-8' }), 'glossary.csv');
+    } else {
+      downloadBlob(new Blob([exportGlossaryTbx(glossary.entries)], { type: 'application/x-tbx+xml' }), 'glossary.tbx');
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <BookMarked className="h-5 w-5 text-primary" />
+            Glossary
+          </SheetTitle>
+          <SheetDescription>
+            Terms listed here are always translated the same way. Protected terms are kept exactly as written.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2">
+          <LanguageSelector value={pairSource} onChange={setPairSource} languages={LANGUAGES} requiredCapability="translate" />
+          <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <LanguageSelector value={pairTarget} onChange={setPairTarget} languages={LANGUAGES} requiredCapability="translate" />
+        </div>
+
+        <form onSubmit={handleAdd} className="space-y-3 p-3 border rounded-md bg-muted/30">
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="glossary-source-term" className="text-xs text-muted-foreground">Source term</Label>
+              <Input id="glossary-source-term" value={sourceTerm} onChange={(e) => setSourceTerm(e.target.value)} placeholder="e.g. LinguaCraft" />
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="glossary-target-term" className="text-xs text-muted-foreground">Translation</Label>
+              <Input
+                id="glossary-target-term"
+                value={doNotTranslate ? sourceTerm : targetTerm}
+                onChange={(e) => setTargetTerm(e.target.value)}
+                disabled={doNotTranslate}
+                placeholder="Required translation"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="glossary-do-not-translate" checked={doNotTranslate} onCheckedChange={(checked) => setDoNotTranslate(checked === true)} />
+              <Label htmlFor="glossary-do-not-translate" className="text-sm font-normal cursor-pointer">Do not translate</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="glossary-case-sensitive" checked={caseSensitive} onCheckedChange={(checked) => setCaseSensitive(checked === true)} />
+              <Label htmlFor="glossary-case-sensitive" className="text-sm font-normal cursor-pointer">Match case</Label>
+            </div>
+            <Button type="submit" size="sm" className="ml-auto" disabled={!canAdd}>
+              <Plus className="h-4 w-4 mr-1" /> Add
+            </Button>
+          </div>
+        </form>
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          {pairEntries.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground border border-dashed rounded-md">
+              No glossary terms for this language pair yet.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {pairEntries.map(entry => (
+                <li key={entry.id} className="flex items-center gap-2 p-2 border rounded-md text-sm">
+                  <span className="font-medium break-all">{entry.sourceTerm}</span>
+                  {entry.doNotTranslate ? (
+                    <Badge variant="secondary" className="font-normal gap-1"><ShieldCheck className="h-3 w-3" /> Protected</Badge>
+                  ) : (
+                    <>
+                      <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                      <span className="break-all">{entry.targetTerm}</span>
+                    </>
+                  )}
+                  {entry.caseSensitive && <Badge variant="outline" className="font-normal" title="Matches case">Aa</Badge>}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => dispatch(removeGlossaryEntry(entry.id))}
+                    aria-label={`Delete glossary term ${entry.sourceTerm}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" /> Import CSV/TBX
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tbx,.xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={glossary.entries.length === 0}>
+            <Download className="h-4 w-4 mr-1" /> CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('tbx')} disabled={glossary.entries.length === 0}>
+            <Download className="h-4 w-4 mr-1" /> TBX
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
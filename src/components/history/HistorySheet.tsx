@@ -0,0 +1,161 @@
+
+/**
+ * @fileOverview HistorySheet.tsx - Side sheet listing past translations with full-text search,
+ * a date range filter, and actions to restore or delete individual entries.
+ */
+
+import { useMemo, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowRight, History, RotateCcw, Search, Trash2 } from 'lucide-react';
+import type { HistoryEntry } from '@/lib/history';
+import { filterHistoryEntries } from '@/lib/history';
+import { getLanguageLabel, getSourceLanguageLabel } from '@/lib/languages';
+
+interface HistorySheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  entries: HistoryEntry[];
+  onRestore: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+}
+
+/** Converts an `<input type="date">` value to local-time epoch milliseconds. */
+function parseDateInput(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const time = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+  return isNaN(time) ? undefined : time;
+}
+
+export function HistorySheet({ isOpen, onOpenChange, entries, onRestore, onDelete, onClearAll }: HistorySheetProps) {
+  const [query, setQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const filteredEntries = useMemo(() => filterHistoryEntries(entries, {
+    query,
+    from: parseDateInput(fromDate, false),
+    to: parseDateInput(toDate, true),
+  }), [entries, query, fromDate, toDate]);
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Translation History
+          </SheetTitle>
+          <SheetDescription>Restore a previous translation without calling the API again.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search source or translated text..."
+              className="pl-9"
+              aria-label="Search translation history"
+            />
+          </div>
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="history-from-date" className="text-xs text-muted-foreground">From</Label>
+              <Input id="history-from-date" type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="history-to-date" className="text-xs text-muted-foreground">To</Label>
+              <Input id="history-to-date" type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          {filteredEntries.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground border border-dashed rounded-md">
+              {entries.length === 0 ? 'Your translations will appear here.' : 'No translations match your filters.'}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {filteredEntries.map((entry) => (
+                <li key={entry.id} className="p-3 border rounded-md bg-muted/30 space-y-2">
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1 font-medium text-foreground/80">
+                      {getSourceLanguageLabel(entry.sourceLanguage)}
+                      <ArrowRight className="h-3 w-3" />
+                      {getLanguageLabel(entry.targetLanguage)}
+                    </span>
+                    <time dateTime={new Date(entry.createdAt).toISOString()}>
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </time>
+                  </div>
+                  <p className="text-sm line-clamp-2 whitespace-pre-wrap">{entry.sourceText}</p>
+                  <p className="text-sm line-clamp-2 whitespace-pre-wrap text-muted-foreground">
+                    {entry.enhancement?.text ?? entry.translatedText}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    {entry.enhancement && (
+                      <Badge variant="secondary" className="font-normal" title={entry.enhancement.instruction}>Enhanced</Badge>
+                    )}
+                    <Button variant="outline" size="sm" className="ml-auto h-8" onClick={() => onRestore(entry)}>
+                      <RotateCcw className="h-3.5 w-3.5 mr-1" /> Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => onDelete(entry.id)}
+                      aria-label="Delete history entry"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+
+        {entries.length > 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="text-destructive hover:text-destructive">
+                <Trash2 className="h-4 w-4 mr-2" /> Clear History
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Clear translation history?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  All {entries.length} saved translations will be permanently removed from this browser.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={onClearAll}>Clear</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,7 +1,17 @@
 
 import { LinguaCraftLogo } from '@/components/icons';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { BookMarked, History, Library, Settings } from 'lucide-react';
 
-export function NavigationBar() {
+interface NavigationBarProps {
+  onOpenHistory: () => void;
+  onOpenGlossary: () => void;
+  onOpenTranslationMemory: () => void;
+  onOpenSettings: () => void;
+}
+
+export function NavigationBar({ onOpenHistory, onOpenGlossary, onOpenTranslationMemory, onOpenSettings }: NavigationBarProps) {
 
   return (
     <nav className="flex items-center justify-between p-4 bg-card shadow-sm rounded-lg mb-6">
@@ -15,6 +25,38 @@ export function NavigationBar() {
       
       <div className="flex items-center gap-3">
         {/* All authentication UI (buttons, avatar, dropdowns, notifications) has been removed */}
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="icon" onClick={onOpenGlossary} aria-label="Open glossary">
+              <BookMarked className="h-5 w-5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent><p>Glossary</p></TooltipContent>
+        </Tooltip>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="icon" onClick={onOpenTranslationMemory} aria-label="Open translation memory">
+              <Library className="h-5 w-5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent><p>Translation Memory</p></TooltipContent>
+        </Tooltip>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="icon" onClick={onOpenHistory} aria-label="Open translation history">
+              <History className="h-5 w-5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent><p>Translation History</p></TooltipContent>
+        </Tooltip>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="icon" onClick={onOpenSettings} aria-label="Open settings">
+              <Settings className="h-5 w-5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent><p>Settings</p></TooltipContent>
+        </Tooltip>
       </div>
     </nav>
   );
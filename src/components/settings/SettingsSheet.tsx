@@ -0,0 +1,123 @@
+/**
+ * @fileOverview SettingsSheet.tsx - Side sheet for app-wide settings: text-to-speech voices, and
+ * how much space cached speech audio takes with a button to purge it.
+ */
+
+import { useEffect } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { VoiceSettings } from '@/components/settings/VoiceSettings';
+import type { LanguageCode } from '@/lib/languages';
+import { Settings, Trash2 } from 'lucide-react';
+import type { SpeechCacheStats } from '@/lib/speech-cache';
+import { SPEECH_CACHE_MAX_BYTES } from '@/lib/speech-cache';
+
+interface SettingsSheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  /** Language the voice settings start on. */
+  voiceLanguage: LanguageCode;
+  /** Size of the speech cache; null until it has been read. */
+  speechCacheStats: SpeechCacheStats | null;
+  /** Re-reads the speech cache size; called whenever the sheet opens. */
+  onRefreshSpeechCacheStats: () => void;
+  onPurgeSpeechCache: () => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function SettingsSheet({
+  isOpen,
+  onOpenChange,
+  voiceLanguage,
+  speechCacheStats,
+  onRefreshSpeechCacheStats,
+  onPurgeSpeechCache,
+}: SettingsSheetProps) {
+  useEffect(() => {
+    if (isOpen) onRefreshSpeechCacheStats();
+  }, [isOpen, onRefreshSpeechCacheStats]);
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Settings className="h-5 w-5 text-primary" />
+            Settings
+          </SheetTitle>
+          <SheetDescription>Preferences and data stored in this browser.</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          <div className="space-y-6">
+            <VoiceSettings key={voiceLanguage} initialLanguage={voiceLanguage} />
+
+            <Separator />
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium">Speech audio cache</h3>
+              <p className="text-sm text-muted-foreground">
+                Spoken text is kept so the same text can be played again without another request.
+                The least recently played clips are removed when the cache is full.
+              </p>
+              <Progress
+                value={speechCacheStats ? Math.min(100, (speechCacheStats.bytes / SPEECH_CACHE_MAX_BYTES) * 100) : 0}
+                aria-label="Speech cache usage"
+              />
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm tabular-nums">
+                  {speechCacheStats
+                    ? `${speechCacheStats.entries} ${speechCacheStats.entries === 1 ? 'clip' : 'clips'} · ${formatBytes(speechCacheStats.bytes)} of ${formatBytes(SPEECH_CACHE_MAX_BYTES)}`
+                    : 'Reading cache size...'}
+                </span>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      disabled={!speechCacheStats || speechCacheStats.entries === 0}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" /> Purge
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Purge speech cache?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        All cached audio will be removed. Text spoken again will be synthesized anew.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={onPurgeSpeechCache}>Purge</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </section>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
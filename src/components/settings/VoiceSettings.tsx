@@ -0,0 +1,113 @@
+/**
+ * @fileOverview VoiceSettings.tsx - Settings section for text-to-speech voices: pick a language,
+ * then its voice, speaking rate and pitch. Choices are stored per language and sent with every
+ * TTS request in that language.
+ */
+
+import { useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { RootState } from '@/store/store';
+import { resetVoicePreference, selectVoicePreference, setVoicePreference } from '@/store/slices/voicePreferencesSlice';
+import type { LanguageCode } from '@/lib/languages';
+import { LANGUAGES } from '@/lib/languages';
+import type { VoicePreference } from '@/lib/voices';
+import { MAX_PITCH, MAX_SPEAKING_RATE, MIN_PITCH, MIN_SPEAKING_RATE } from '@/lib/voices';
+import { useTtsVoices } from '@/hooks/use-tts-voices';
+import { LanguageSelector } from '@/components/translation/LanguageSelector';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+
+interface VoiceSettingsProps {
+  /** Language shown first, typically the current target language. */
+  initialLanguage: LanguageCode;
+}
+
+/** Select value standing for "no voice chosen"; Radix selects cannot use an empty value. */
+const DEFAULT_VOICE_VALUE = 'default';
+
+export function VoiceSettings({ initialLanguage }: VoiceSettingsProps) {
+  const [language, setLanguage] = useState<LanguageCode>(initialLanguage);
+  const dispatch = useDispatch();
+  const voicePreferences = useSelector((state: RootState) => state.voicePreferences);
+  const preference = useMemo(() => selectVoicePreference(voicePreferences, language), [voicePreferences, language]);
+  const { voices, source, isLoading } = useTtsVoices(language);
+  const isCustomized = preference.voiceId !== null || preference.speakingRate !== 1 || preference.pitch !== 1;
+
+  const updatePreference = (changes: Partial<VoicePreference>) => {
+    dispatch(setVoicePreference({ language, preference: { ...preference, ...changes } }));
+  };
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <h3 className="text-sm font-medium">Voice</h3>
+        <p className="text-sm text-muted-foreground">Remembered for each language.</p>
+      </div>
+      <LanguageSelector value={language} onChange={setLanguage} languages={LANGUAGES} requiredCapability="tts" />
+
+      <div className="space-y-1.5">
+        <Label htmlFor="tts-voice" className="text-xs">Voice</Label>
+        <Select
+          value={preference.voiceId ?? DEFAULT_VOICE_VALUE}
+          onValueChange={(value) => updatePreference({ voiceId: value === DEFAULT_VOICE_VALUE ? null : value })}
+          disabled={isLoading}
+        >
+          <SelectTrigger id="tts-voice" className="h-9 text-sm">
+            <SelectValue placeholder={isLoading ? 'Loading voices...' : undefined} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_VOICE_VALUE} className="text-sm">Server default</SelectItem>
+            {voices.map(voice => (
+              <SelectItem key={voice.id} value={voice.id} className="text-sm">{voice.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {source === 'browser' && voices.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            The server lists no voices, so these are your browser's. They are spoken on this device.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="tts-rate" className="text-xs">Speaking rate</Label>
+          <span className="text-xs font-medium tabular-nums">{preference.speakingRate.toFixed(2)}x</span>
+        </div>
+        <Slider
+          id="tts-rate"
+          min={MIN_SPEAKING_RATE}
+          max={MAX_SPEAKING_RATE}
+          step={0.05}
+          value={[preference.speakingRate]}
+          onValueChange={([value]) => updatePreference({ speakingRate: Math.round(value * 100) / 100 })}
+          aria-label="Speaking rate"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="tts-pitch" className="text-xs">Pitch</Label>
+          <span className="text-xs font-medium tabular-nums">{preference.pitch.toFixed(2)}x</span>
+        </div>
+        <Slider
+          id="tts-pitch"
+          min={MIN_PITCH}
+          max={MAX_PITCH}
+          step={0.05}
+          value={[preference.pitch]}
+          onValueChange={([value]) => updatePreference({ pitch: Math.round(value * 100) / 100 })}
+          aria-label="Pitch"
+        />
+      </div>
+
+      {isCustomized && (
+        <Button variant="ghost" size="sm" className="w-full" onClick={() => dispatch(resetVoicePreference({ language }))}>
+          Reset to defaults
+        </Button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,222 @@
+/**
+ * @fileOverview TranslationMemorySheet.tsx - Side sheet for browsing the translation memory,
+ * tuning the fuzzy match threshold, and exchanging the memory with other tools as TMX.
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Slider } from '@/components/ui/slider';
+import { ArrowRight, Download, Library, Search, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getLanguageLabel } from '@/lib/languages';
+import type { NewTranslationMemoryEntry, TranslationMemoryEntry } from '@/lib/translation-memory';
+import { exportTmx, parseTmx } from '@/lib/tmx';
+import { downloadBlob } from '@/lib/download';
+
+interface TranslationMemorySheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  entries: TranslationMemoryEntry[];
+  /** Minimum similarity (0–1) for a match to be suggested. */
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  /** Stores imported entries and resolves with how many were saved. */
+  onImport: (entries: NewTranslationMemoryEntry[]) => Promise<number>;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+}
+
+/** Rendering thousands of rows makes the sheet sluggish; search narrows the rest down. */
+const MAX_LISTED_ENTRIES = 200;
+
+const ORIGIN_LABELS: Record<TranslationMemoryEntry['origin'], string> = {
+  translation: 'Translated',
+  enhancement: 'Enhanced',
+  edit: 'Post-edited',
+  import: 'Imported',
+};
+
+export function TranslationMemorySheet({
+  isOpen,
+  onOpenChange,
+  entries,
+  threshold,
+  onThresholdChange,
+  onImport,
+  onDelete,
+  onClearAll,
+}: TranslationMemorySheetProps) {
+  const [query, setQuery] = useState('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const { toast } = useToast();
+
+  const filteredEntries = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return entries;
+    return entries.filter(entry =>
+      entry.sourceText.toLowerCase().includes(needle) || entry.targetText.toLowerCase().includes(needle)
+    );
+  }, [entries, query]);
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseTmx(await file.text());
+      const savedCount = await onImport(imported);
+      if (savedCount === 0) {
+        toast({ title: 'Nothing Imported', description: `No translation units in supported languages were found in ${file.name}.`, variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Translation Memory Imported', description: `${savedCount} sentence pairs imported from ${file.name}.` });
+    } catch (error) {
+      console.error('TMX import error:', error);
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'The TMX file could not be read.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportTmx(entries)], { type: 'application/x-tmx+xml' }), 'translation-memory.tmx');
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Library className="h-5 w-5 text-primary" />
+            Translation Memory
+          </SheetTitle>
+          <SheetDescription>
+            Sentence pairs from your confirmed translations. Similar sentences are suggested while you type.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="tm-threshold" className="text-sm">Minimum match</Label>
+            <span className="text-sm font-medium tabular-nums">{Math.round(threshold * 100)}%</span>
+          </div>
+          <Slider
+            id="tm-threshold"
+            min={50}
+            max={100}
+            step={5}
+            value={[Math.round(threshold * 100)]}
+            onValueChange={([value]) => onThresholdChange(value / 100)}
+            aria-label="Minimum similarity for translation memory matches"
+          />
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={`Search ${entries.length} sentence pairs...`}
+            className="pl-9"
+            aria-label="Search translation memory"
+          />
+        </div>
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          {filteredEntries.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground border border-dashed rounded-md">
+              {entries.length === 0 ? 'Confirmed translations will be remembered here.' : 'No sentence pairs match your search.'}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {filteredEntries.slice(0, MAX_LISTED_ENTRIES).map(entry => (
+                <li key={entry.id} className="p-2 border rounded-md bg-muted/30 space-y-1 text-sm">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1 font-medium text-foreground/80">
+                      {getLanguageLabel(entry.sourceLanguage)}
+                      <ArrowRight className="h-3 w-3" />
+                      {getLanguageLabel(entry.targetLanguage)}
+                    </span>
+                    <Badge variant="secondary" className="font-normal">{ORIGIN_LABELS[entry.origin]}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="ml-auto h-7 w-7 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => onDelete(entry.id)}
+                      aria-label="Delete sentence pair"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                  <p className="break-words">{entry.sourceText}</p>
+                  <p className="break-words text-muted-foreground">{entry.targetText}</p>
+                </li>
+              ))}
+              {filteredEntries.length > MAX_LISTED_ENTRIES && (
+                <li className="p-2 text-center text-xs text-muted-foreground">
+                  Showing {MAX_LISTED_ENTRIES} of {filteredEntries.length}. Search to find older pairs.
+                </li>
+              )}
+            </ul>
+          )}
+        </ScrollArea>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" /> Import TMX
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".tmx,.xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={entries.length === 0}>
+            <Download className="h-4 w-4 mr-1" /> Export TMX
+          </Button>
+          {entries.length > 0 && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" className="ml-auto text-destructive hover:text-destructive">
+                  <Trash2 className="h-4 w-4 mr-1" /> Clear
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear translation memory?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All {entries.length} sentence pairs will be permanently removed from this browser.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onClearAll}>Clear</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * @fileOverview AlignedTranslationView.tsx - Bilingual view that lays the source text and its
+ * translation out sentence by sentence in paired rows. Hovering either side highlights its
+ * counterpart, and each segment can be re-translated or edited on its own.
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Check, Loader2, Pencil, RotateCw, Rows3, X } from 'lucide-react';
+import type { LanguageCode } from '@/lib/languages';
+import { getLanguageLabel } from '@/lib/languages';
+import type { AlignedSegment } from '@/lib/sentence-alignment';
+import { cn } from '@/lib/utils';
+
+interface AlignedTranslationViewProps {
+  className?: string;
+  segments: readonly AlignedSegment[];
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+  /** Segment currently being re-translated, if any. */
+  translatingSegmentIndex: number | null;
+  /** Disables the segment actions, e.g. while the whole text is being translated. */
+  disabled?: boolean;
+  onRetranslateSegment: (index: number) => void;
+  onEditSegment: (index: number, targetText: string) => void;
+  onClose: () => void;
+}
+
+export function AlignedTranslationView({
+  className,
+  segments,
+  sourceLanguage,
+  targetLanguage,
+  translatingSegmentIndex,
+  disabled = false,
+  onRetranslateSegment,
+  onEditSegment,
+  onClose,
+}: AlignedTranslationViewProps) {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraft(segments[index].targetText);
+  };
+
+  const saveEdit = () => {
+    if (editingIndex === null) return;
+    onEditSegment(editingIndex, draft);
+    setEditingIndex(null);
+  };
+
+  const isBusy = disabled || translatingSegmentIndex !== null;
+
+  return (
+    <Card className={cn("shadow-lg rounded-xl border-slate-300 dark:border-slate-700", className)}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <Rows3 className="h-5 w-5 text-primary" />
+            Aligned View
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close aligned view">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+        <CardDescription>
+          {getLanguageLabel(sourceLanguage)} and {getLanguageLabel(targetLanguage)} side by side, sentence by sentence.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {segments.length === 0 ? (
+          <p className="p-4 text-center text-sm text-muted-foreground border border-dashed rounded-md">
+            Translate some text to see it aligned by sentence.
+          </p>
+        ) : (
+          <ol className="divide-y border rounded-md" onMouseLeave={() => setHoveredIndex(null)}>
+            {segments.map((segment, index) => {
+              const isHighlighted = hoveredIndex === index;
+              const isEditing = editingIndex === index;
+              const cellClassName = cn(
+                "p-2 text-sm break-words rounded-sm transition-colors",
+                isHighlighted && "bg-primary/10"
+              );
+              return (
+                <li key={index} className="grid grid-cols-1 sm:grid-cols-2 gap-1 sm:gap-3 p-1">
+                  <p className={cellClassName} onMouseEnter={() => setHoveredIndex(index)}>
+                    {segment.sourceText}
+                  </p>
+                  <div className={cn(cellClassName, "flex items-start gap-2")} onMouseEnter={() => setHoveredIndex(index)}>
+                    {isEditing ? (
+                      <div className="flex-1 space-y-2">
+                        <Textarea
+                          value={draft}
+                          onChange={(e) => setDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveEdit();
+                            if (e.key === 'Escape') setEditingIndex(null);
+                          }}
+                          className="min-h-[60px] text-sm"
+                          aria-label={`Edit translation of sentence ${index + 1}`}
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-1">
+                          <Button size="sm" variant="ghost" className="h-7" onClick={() => setEditingIndex(null)}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" className="h-7" onClick={saveEdit}>
+                            <Check className="h-3.5 w-3.5 mr-1" /> Save
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <span className={cn("flex-1", !segment.targetText && "italic text-muted-foreground")}>
+                          {segment.targetText || 'Not translated'}
+                        </span>
+                        <div className="flex shrink-0 gap-0.5">
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                onClick={() => onRetranslateSegment(index)}
+                                disabled={isBusy}
+                                aria-label={`Re-translate sentence ${index + 1}`}
+                              >
+                                {translatingSegmentIndex === index
+                                  ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                  : <RotateCw className="h-3.5 w-3.5" />}
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent><p>Re-translate sentence</p></TooltipContent>
+                          </Tooltip>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                onClick={() => startEditing(index)}
+                                disabled={isBusy}
+                                aria-label={`Edit translation of sentence ${index + 1}`}
+                              >
+                                <Pencil className="h-3.5 w-3.5" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent><p>Edit sentence</p></TooltipContent>
+                          </Tooltip>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
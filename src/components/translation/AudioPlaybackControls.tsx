@@ -0,0 +1,97 @@
+/**
+ * @fileOverview AudioPlaybackControls.tsx - Seek bar, playback speed and stop for the clip a panel
+ * is playing through the shared audio player. Play/pause lives on the panel's speak button.
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Square } from 'lucide-react';
+import type { AudioPlaybackState, AudioPlayer } from '@/lib/audio';
+import { PLAYBACK_RATES } from '@/lib/audio';
+import { cn } from '@/lib/utils';
+
+interface AudioPlaybackControlsProps {
+  className?: string;
+  player: AudioPlayer;
+  /** The player's state; only rendered for the panel that owns the current clip. */
+  playback: AudioPlaybackState;
+}
+
+/** Formats seconds as m:ss. */
+function formatPlaybackTime(seconds: number): string {
+  const wholeSeconds = Math.floor(seconds);
+  return `${Math.floor(wholeSeconds / 60)}:${String(wholeSeconds % 60).padStart(2, '0')}`;
+}
+
+export function AudioPlaybackControls({ className, player, playback }: AudioPlaybackControlsProps) {
+  // Position under the thumb while dragging, so position updates don't yank it back mid-drag.
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const { currentTime, duration, playbackRate, status } = playback;
+  const displayedTime = scrubTime ?? currentTime;
+  // Browser speech synthesis has no known length, so it gets no seek bar.
+  const isSeekable = duration > 0;
+
+  return (
+    <div className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => player.stop()} aria-label="Stop audio">
+            <Square className="h-4 w-4" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent><p>Stop Audio</p></TooltipContent>
+      </Tooltip>
+      {isSeekable ? (
+        <>
+          <span className="w-9 text-right tabular-nums">{formatPlaybackTime(displayedTime)}</span>
+          <Slider
+            className="flex-1"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={[displayedTime]}
+            disabled={status === 'loading'}
+            onValueChange={([value]) => setScrubTime(value)}
+            onValueCommit={([value]) => {
+              player.seek(value);
+              setScrubTime(null);
+            }}
+            aria-label="Seek audio"
+          />
+          <span className="w-9 tabular-nums">{formatPlaybackTime(duration)}</span>
+        </>
+      ) : (
+        <span className="flex-1" />
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 shrink-0 px-2 text-xs tabular-nums" aria-label={`Playback speed: ${playbackRate}x`}>
+            {playbackRate}x
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Playback speed</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup value={String(playbackRate)} onValueChange={(value) => player.setPlaybackRate(Number(value))}>
+            {PLAYBACK_RATES.map(rate => (
+              <DropdownMenuRadioItem key={rate} value={String(rate)}>
+                {rate}x
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * @fileOverview BackTranslationCard.tsx - Quality check that translates the translation back into
+ * the source language and compares it with the original side by side, highlighting segments
+ * whose meaning may have drifted. It never touches the main panels.
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCw, ShieldCheck, X } from 'lucide-react';
+import { useApiClient } from '@/hooks/use-api-client';
+import { describeApiError, isAbortError } from '@/lib/api';
+import type { LanguageCode } from '@/lib/languages';
+import { getLanguageLabel } from '@/lib/languages';
+import type { BackTranslationComparison } from '@/lib/back-translation';
+import { DIVERGENCE_THRESHOLD, compareBackTranslation } from '@/lib/back-translation';
+import { createTranslationChunks, stitchTranslationChunks, translateChunks } from '@/lib/chunked-translation';
+import type { ConcurrencyLimiter } from '@/lib/concurrency';
+import { cn } from '@/lib/utils';
+
+interface BackTranslationCardProps {
+  className?: string;
+  /** The original text, in `sourceLanguage`. */
+  sourceText: string;
+  /** The translation to verify, in `targetLanguage`. */
+  translatedText: string;
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+  wordLimit: number;
+  maxConcurrentRequests: number;
+  /** The app's shared request limiter, so back-translation counts toward the concurrency cap. */
+  limiter: ConcurrencyLimiter;
+  onDismiss: () => void;
+}
+
+type BackTranslationStatus = 'translating' | 'done' | 'error';
+
+const scoreVariant = (similarity: number) => similarity < DIVERGENCE_THRESHOLD ? 'destructive' : similarity < 0.85 ? 'secondary' : 'default';
+
+export function BackTranslationCard({
+  className,
+  sourceText,
+  translatedText,
+  sourceLanguage,
+  targetLanguage,
+  wordLimit,
+  maxConcurrentRequests,
+  limiter,
+  onDismiss,
+}: BackTranslationCardProps) {
+  const [status, setStatus] = useState<BackTranslationStatus>('translating');
+  const [comparison, setComparison] = useState<BackTranslationComparison | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const apiClient = useApiClient();
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    setStatus('translating');
+    setErrorMessage(null);
+
+    // The translation goes back through the regular translate endpoint, chunked like any long text.
+    translateChunks(createTranslationChunks(translatedText, wordLimit, targetLanguage), {
+      concurrency: maxConcurrentRequests,
+      signal: abortController.signal,
+      translate: (text, signal) => limiter(async () => {
+        const result = await apiClient.translateText({
+          text,
+          sourceLanguage: targetLanguage,
+          targetLanguage: sourceLanguage,
+        }, { signal });
+        return result.translatedText;
+      }, signal),
+    })
+      .then(chunks => {
+        const failedChunk = chunks.find(chunk => chunk.status === 'failed');
+        if (failedChunk) {
+          throw new Error(failedChunk.error ?? 'Part of the translation could not be translated back');
+        }
+        setComparison(compareBackTranslation(sourceText, stitchTranslationChunks(chunks), sourceLanguage));
+        setStatus('done');
+      })
+      .catch(error => {
+        if (isAbortError(error) || abortController.signal.aborted) return;
+        console.error('Back-translation error:', error);
+        setErrorMessage(describeApiError(error, 'translation service', 'Back-translation error'));
+        setStatus('error');
+      });
+
+    return () => abortController.abort();
+  }, [apiClient, sourceText, translatedText, sourceLanguage, targetLanguage, wordLimit, maxConcurrentRequests, limiter, attempt]);
+
+  const divergentCount = comparison?.segments.filter(segment => segment.isDivergent).length ?? 0;
+
+  return (
+    <Card className={cn("shadow-lg rounded-xl border-slate-300 dark:border-slate-700", className)}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Back-Translation Check
+            {comparison && status === 'done' && (
+              <Badge variant={scoreVariant(comparison.score)} className="ml-1 tabular-nums" title="Overall similarity">
+                {Math.round(comparison.score * 100)}%
+              </Badge>
+            )}
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onDismiss} aria-label="Close back-translation check">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+        <CardDescription className="pt-1">
+          {status === 'translating' && `Translating the ${getLanguageLabel(targetLanguage)} text back to ${getLanguageLabel(sourceLanguage)}...`}
+          {status === 'error' && 'The translation could not be translated back.'}
+          {status === 'done' && comparison && (divergentCount === 0
+            ? 'Every segment reads close to the original.'
+            : `${divergentCount} of ${comparison.segments.length} segments diverge from the original and may be mistranslated.`)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {status === 'translating' && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Checking...
+          </div>
+        )}
+        {status === 'error' && (
+          <div className="flex items-center gap-3">
+            <p className="text-sm text-destructive flex-1">{errorMessage}</p>
+            <Button variant="outline" size="sm" onClick={() => setAttempt(prev => prev + 1)}>
+              <RotateCw className="h-4 w-4 mr-1" /> Try again
+            </Button>
+          </div>
+        )}
+        {status === 'done' && comparison && (
+          <>
+            <div className="hidden sm:grid grid-cols-[1fr_1fr_auto] gap-3 px-2 text-xs font-medium text-muted-foreground">
+              <span>Original ({getLanguageLabel(sourceLanguage)})</span>
+              <span>Back-translation</span>
+              <span className="w-12 text-right">Match</span>
+            </div>
+            <ol className="divide-y border rounded-md">
+              {comparison.segments.map((segment, index) => (
+                <li
+                  key={index}
+                  className={cn(
+                    "grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-1 sm:gap-3 p-2 text-sm",
+                    segment.isDivergent && "bg-destructive/10"
+                  )}
+                >
+                  <p className="break-words">{segment.original}</p>
+                  <p className="break-words">
+                    {segment.backTranslated ? segment.diff.map((part, partIndex) => part.type !== 'delete' && (
+                      <span
+                        key={partIndex}
+                        className={cn(part.type === 'insert' && segment.isDivergent && "underline decoration-destructive decoration-2 underline-offset-2")}
+                      >
+                        {part.text}
+                      </span>
+                    )) : <span className="italic text-muted-foreground">Nothing came back for this sentence</span>}
+                  </p>
+                  <div className="sm:w-12 sm:text-right">
+                    <Badge variant={scoreVariant(segment.similarity)} className="font-normal tabular-nums">
+                      {Math.round(segment.similarity * 100)}%
+                    </Badge>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+
+/**
+ * @fileOverview DocumentTranslationCard.tsx - Translates an uploaded document (.txt, .md, .srt,
+ * .docx) chunk by chunk with a progress bar, then offers the result as a download in the same
+ * format as the original.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Download, FileText, Loader2, X } from 'lucide-react';
+import { useSelector } from 'react-redux';
+import type { RootState } from '@/store/store';
+import { selectTranslationOptionsForPair } from '@/store/slices/translationOptionsSlice';
+import { selectGlossaryForPair } from '@/store/slices/glossarySlice';
+import { useToast } from '@/hooks/use-toast';
+import { useApiClient } from '@/hooks/use-api-client';
+import { describeApiError, isAbortError } from '@/lib/api';
+import type { LanguageCode, SourceLanguageCode } from '@/lib/languages';
+import { getLanguageLabel, getSourceLocale } from '@/lib/languages';
+import { detectLanguage } from '@/lib/language-detection';
+import type { ParsedDocument } from '@/lib/documents';
+import { getTranslatedFileName, parseDocument, translateSegments } from '@/lib/documents';
+import { prepareGlossaryText } from '@/lib/glossary';
+import type { ConcurrencyLimiter } from '@/lib/concurrency';
+import { protectFormatting, protectPlaceholders, withFormatProtection } from '@/lib/format-protection';
+import { getTranslationRequestOptions } from '@/lib/translation-options';
+import { cn } from '@/lib/utils';
+
+interface DocumentTranslationCardProps {
+  className?: string;
+  file: File;
+  sourceLanguage: SourceLanguageCode;
+  targetLanguage: LanguageCode;
+  wordLimit: number;
+  /** Whether glossary terms can be sent to the server instead of being masked. */
+  supportsGlossary: boolean;
+  /** The app's shared request limiter, so document chunks count toward the concurrency cap. */
+  limiter: ConcurrencyLimiter;
+  onDismiss: () => void;
+}
+
+type DocumentStatus = 'parsing' | 'ready' | 'translating' | 'done' | 'error';
+
+export function DocumentTranslationCard({
+  className,
+  file,
+  sourceLanguage,
+  targetLanguage,
+  wordLimit,
+  supportsGlossary,
+  limiter,
+  onDismiss,
+}: DocumentTranslationCardProps) {
+  const [status, setStatus] = useState<DocumentStatus>('parsing');
+  const [parsedDocument, setParsedDocument] = useState<ParsedDocument | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [progress, setProgress] = useState({ completedSegments: 0, totalSegments: 0 });
+  const [download, setDownload] = useState<{ url: string; fileName: string; language: LanguageCode } | null>(null);
+
+  const { toast } = useToast();
+  const apiClient = useApiClient();
+  const translationOptions = useSelector((state: RootState) => state.translationOptions);
+  const glossary = useSelector((state: RootState) => state.glossary);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setStatus('parsing');
+    parseDocument(file)
+      .then(parsed => {
+        if (isCancelled) return;
+        if (parsed.segments.length === 0) {
+          setErrorMessage('No translatable text was found in this document.');
+          setStatus('error');
+          return;
+        }
+        setParsedDocument(parsed);
+        setProgress({ completedSegments: 0, totalSegments: parsed.segments.length });
+        setStatus('ready');
+      })
+      .catch(error => {
+        if (isCancelled) return;
+        console.error('Document parsing error:', error);
+        setErrorMessage(error instanceof Error ? error.message : 'The document could not be read.');
+        setStatus('error');
+      });
+    return () => {
+      isCancelled = true;
+      abortControllerRef.current?.abort();
+    };
+  }, [file]);
+
+  useEffect(() => {
+    return () => {
+      if (download) URL.revokeObjectURL(download.url);
+    };
+  }, [download]);
+
+  const handleTranslateDocument = async () => {
+    if (!parsedDocument) return;
+
+    const sampleText = parsedDocument.segments.slice(0, 50).join(' ');
+    // An unsure guess stays `auto`, leaving detection to the server.
+    const effectiveSourceLanguage = sourceLanguage === 'auto' ? detectLanguage(sampleText) ?? 'auto' : sourceLanguage;
+    if (effectiveSourceLanguage === targetLanguage) {
+      toast({ title: 'Same Language', description: 'Pick a target language different from the document language.', variant: 'default' });
+      return;
+    }
+
+    const requestOptions = getTranslationRequestOptions(
+      selectTranslationOptionsForPair(translationOptions, effectiveSourceLanguage, targetLanguage),
+      targetLanguage
+    );
+    const glossaryEntries = selectGlossaryForPair(glossary, effectiveSourceLanguage, targetLanguage);
+    // Markdown keeps its inline markup too; other formats only hide their placeholders.
+    const protectText = (text: string) =>
+      parsedDocument.format === 'md' ? protectFormatting(text, 'markdown') : protectPlaceholders(text);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setStatus('translating');
+    setDownload(null);
+    setErrorMessage(null);
+
+    try {
+      const translations = await translateSegments(parsedDocument.segments, {
+        wordLimit,
+        locale: getSourceLocale(effectiveSourceLanguage),
+        signal: abortController.signal,
+        onProgress: setProgress,
+        translate: (text, signal) => limiter(async () => {
+          const protectedText = protectText(text);
+          const prepared = withFormatProtection(protectedText, prepareGlossaryText(
+            protectedText.text,
+            glossaryEntries,
+            { useServerGlossary: supportsGlossary }
+          ));
+          const result = await apiClient.translateText({
+            text: prepared.text,
+            sourceLanguage: effectiveSourceLanguage,
+            targetLanguage,
+            glossary: prepared.serverGlossary,
+            ...requestOptions,
+          }, { signal });
+          return prepared.restore(result.translatedText);
+        }, signal),
+      });
+      const blob = await parsedDocument.build(translations);
+      setDownload({
+        url: URL.createObjectURL(blob),
+        fileName: getTranslatedFileName(parsedDocument.fileName, targetLanguage),
+        language: targetLanguage,
+      });
+      setStatus('done');
+      toast({ title: 'Document Translated', description: `${parsedDocument.fileName} is ready to download.` });
+    } catch (error) {
+      if (isAbortError(error) || (error instanceof DOMException && error.name === 'AbortError')) {
+        setStatus('ready');
+        return;
+      }
+      console.error('Document translation error:', error);
+      const description = describeApiError(error, 'translation service', 'Document translation error');
+      setErrorMessage(description);
+      setStatus('ready');
+      toast({ title: 'Document Translation Failed', description, variant: 'destructive' });
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const percent = progress.totalSegments > 0 ? Math.round((progress.completedSegments / progress.totalSegments) * 100) : 0;
+
+  return (
+    <Card className={cn("shadow-lg rounded-xl border-slate-300 dark:border-slate-700", className)}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-xl flex items-center gap-2 min-w-0">
+            <FileText className="h-5 w-5 text-primary shrink-0" />
+            <span className="truncate">{file.name}</span>
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onDismiss} disabled={status === 'translating'} aria-label="Close document">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+        <CardDescription className="pt-1">
+          {status === 'parsing' && 'Reading document...'}
+          {status === 'error' && 'This document cannot be translated.'}
+          {parsedDocument && status !== 'error' && `${parsedDocument.segments.length} segments, translated in chunks of up to ${wordLimit} words.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {errorMessage && (
+          <p className="text-sm text-destructive">{errorMessage}</p>
+        )}
+
+        {(status === 'translating' || status === 'done') && (
+          <div className="space-y-1">
+            <Progress value={percent} className="h-2" aria-label="Document translation progress" />
+            <p className="text-xs text-muted-foreground text-right">
+              {progress.completedSegments} / {progress.totalSegments} segments
+            </p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {status === 'translating' ? (
+            <>
+              <Button disabled>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Translating...
+              </Button>
+              <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            </>
+          ) : (
+            <Button onClick={handleTranslateDocument} disabled={status !== 'ready' && status !== 'done'}>
+              {download ? 'Translate Again' : 'Translate Document'} to {getLanguageLabel(targetLanguage)}
+            </Button>
+          )}
+          {download && status === 'done' && (
+            <Button variant="outline" asChild>
+              <a href={download.url} download={download.fileName}>
+                <Download className="mr-2 h-4 w-4" />
+                Download {getLanguageLabel(download.language)}
+              </a>
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
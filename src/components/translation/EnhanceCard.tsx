@@ -13,15 +13,12 @@ import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
 import { Loader2, Copy, Check, Info, Settings2, WandSparkles } from 'lucide-react';
-import type { LanguageCode } from '@/lib/constants';
+import type { LanguageCode } from '@/lib/languages';
 import { useToast } from '@/hooks/use-toast';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
-
-interface EnhanceTextOutput {
-  enhancedText: string;
-}
-
+import { describeApiError } from '@/lib/api';
+import { useApiClient } from '@/hooks/use-api-client';
 
 interface EnhanceCardProps {
   className?: string;
@@ -29,8 +26,8 @@ interface EnhanceCardProps {
   currentTranslatedText: string;
   sourceLanguage: LanguageCode; 
   targetLanguage: LanguageCode;
-  onApplyText: (text: string) => void;
-  apiBaseUrl: string; 
+  /** Called with the enhanced text and the instruction that produced it. */
+  onApplyText: (text: string, instruction: string) => void;
 }
 
 const enhancementChipOptions: { label: string; instruction: string; description: string }[] = [
@@ -50,16 +47,17 @@ export function EnhanceCard({
   sourceLanguage, 
   targetLanguage,
   onApplyText,
-  apiBaseUrl,
 }: EnhanceCardProps) {
   const [enhancementFeaturesEnabled, setEnhancementFeaturesEnabled] = useState(false);
   const [customInstruction, setCustomInstruction] = useState('');
   const [isLoadingEnhancement, setIsLoadingEnhancement] = useState(false);
   const [processedEnhancedText, setProcessedEnhancedText] = useState<string | null>(null);
+  const [processedInstruction, setProcessedInstruction] = useState('');
   const [copiedStates, setCopiedStates] = useState<{[key: string]: boolean}>({});
   const [isSettingsPanelOpen, setIsSettingsPanelOpen] = useState(false);
 
   const { toast } = useToast();
+  const apiClient = useApiClient();
 
   const generateEnhancementRequestIdRef = useRef(0);
 
@@ -127,33 +125,20 @@ export function EnhanceCard({
     const currentRequestId = ++generateEnhancementRequestIdRef.current;
 
     try {
-      const response = await fetch(`${apiBaseUrl}/api/enhance-text`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          text: currentTranslatedText,
-          language: targetLanguage,
-          instruction: customInstruction,
-        }),
+      const result = await apiClient.enhanceText({
+        text: currentTranslatedText,
+        language: targetLanguage,
+        instruction: customInstruction,
       });
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: `Enhance text API request failed: ${response.statusText} (${response.status})` }));
-        throw new Error(errorData.error || `Enhance text API request failed: ${response.statusText} (${response.status})`);
-      }
-      const result: EnhanceTextOutput = await response.json();
 
       if (currentRequestId === generateEnhancementRequestIdRef.current) {
         setProcessedEnhancedText(result.enhancedText);
+        setProcessedInstruction(customInstruction);
       }
     } catch (error) {
       if (currentRequestId === generateEnhancementRequestIdRef.current) {
         console.error('Failed to apply enhancement:', error);
-        let description = 'An unexpected error occurred while enhancing text.';
-        if (error instanceof TypeError && error.message.toLowerCase().includes('failed to fetch')) {
-          description = `Failed to connect to the text enhancement service. Please ensure the API server at ${apiBaseUrl} is running, accessible, and CORS is configured correctly.`;
-        } else if (error instanceof Error) {
-          description = `Text enhancement error: ${error.message}. Check the console and API server logs for more details.`;
-        }
+        const description = describeApiError(error, 'text enhancement service', 'Text enhancement error');
         toast({ title: 'Enhancement Error', description, variant: 'destructive' });
         setProcessedEnhancedText(currentTranslatedText); 
       }
@@ -170,14 +155,14 @@ export function EnhanceCard({
       setCopiedStates(prev => ({ ...Object.fromEntries(Object.keys(prev).map(k => [k, false])), [id]: true }));
       setTimeout(() => setCopiedStates(prev => ({ ...prev, [id]: false })), 2000);
       toast({ title: 'Copied!', description: 'Text copied to clipboard.' });
-    }).catch(_ => {
+    }).catch(() => {
       toast({ title: 'Copy Failed', description: 'Could not copy text.', variant: 'destructive' });
     });
   };
 
   const handleApplyToMain = (textToApply: string | null) => {
     if (textToApply !== null) {
-      onApplyText(textToApply);
+      onApplyText(textToApply, processedInstruction);
       toast({ title: 'Applied', description: 'Text updated in the main translation panel.' });
     }
   };
@@ -0,0 +1,95 @@
+/**
+ * @fileOverview FormatProtection.tsx - Controls for format-preserving translation: a menu to pick
+ * the input format, and a notice listing protected items (placeholders, markup, URLs) whose count
+ * differs between the source and the translation.
+ */
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { AlertTriangle, Code } from 'lucide-react';
+import type { InputFormat, ProtectedItemMismatch } from '@/lib/format-protection';
+import { INPUT_FORMAT_LABELS, isInputFormat } from '@/lib/format-protection';
+import { cn } from '@/lib/utils';
+
+/** Mismatches listed before the rest are summarised as a count. */
+const MAX_LISTED_MISMATCHES = 5;
+
+interface InputFormatMenuProps {
+  format: InputFormat;
+  onFormatChange: (format: InputFormat) => void;
+  disabled?: boolean;
+}
+
+export function InputFormatMenu({ format, onFormatChange, disabled = false }: InputFormatMenuProps) {
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant={format !== 'plain' ? 'secondary' : 'ghost'}
+              size="icon"
+              className="h-9 w-9"
+              disabled={disabled}
+              aria-label={`Input format: ${INPUT_FORMAT_LABELS[format]}`}
+            >
+              <Code className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent><p>Input Format: {INPUT_FORMAT_LABELS[format]}</p></TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Input format</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={format} onValueChange={(value) => { if (isInputFormat(value)) onFormatChange(value); }}>
+          {(Object.keys(INPUT_FORMAT_LABELS) as InputFormat[]).map(option => (
+            <DropdownMenuRadioItem key={option} value={option}>
+              {INPUT_FORMAT_LABELS[option]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface ProtectedItemMismatchNoticeProps {
+  className?: string;
+  mismatches: readonly ProtectedItemMismatch[];
+}
+
+export function ProtectedItemMismatchNotice({ className, mismatches }: ProtectedItemMismatchNoticeProps) {
+  if (mismatches.length === 0) return null;
+  const listed = mismatches.slice(0, MAX_LISTED_MISMATCHES);
+
+  return (
+    <div
+      className={cn("flex gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-sm", className)}
+      role="status"
+    >
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+      <div className="min-w-0">
+        <p className="font-medium">Placeholders or markup don't match the source</p>
+        <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+          {listed.map(mismatch => (
+            <li key={mismatch.item} className="truncate">
+              <code className="rounded bg-muted px-1 text-foreground">{mismatch.item}</code>{' '}
+              {mismatch.sourceCount}× in source, {mismatch.translationCount}× in translation
+            </li>
+          ))}
+          {mismatches.length > listed.length && <li>and {mismatches.length - listed.length} more</li>}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -4,25 +4,20 @@
  * of text, along with controls for actions like speaking, copying, clearing, recording,
  * and displaying word definitions or suggestions.
  */
-import type { LanguageCode } from '@/lib/constants'; // Ensure type import
-// GetWordDetailsOutput type is now defined in page.tsx and passed as prop
-// import type { GetWordDetailsOutput } from '@/ai/flows/get-word-details'; // Removed direct import
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { LanguageCode } from '@/lib/languages';
+import { getLanguage } from '@/lib/languages';
+import type { GetWordDetailsOutput, SpeechWordTimestamp } from '@/lib/api';
+import { findSpokenWord, getSpokenWordTimings } from '@/lib/audio';
+import { findTermRanges } from '@/lib/glossary';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Popover, PopoverAnchor, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { Volume2, Copy, XCircle, Loader2, Mic, StopCircle } from 'lucide-react'; // Added LanguagesIcon
+import { Volume2, Copy, XCircle, Loader2, Mic, StopCircle, DatabaseZap, FileUp, Pencil, Check, Pause, Play, Download } from 'lucide-react'; // Added LanguagesIcon
 import { cn } from '@/lib/utils';
-
-// Define GetWordDetailsOutput locally to match page.tsx or receive as a generic
-interface GetWordDetailsOutput {
-  definedWord: string;
-  type: string;
-  meaning: string;
-  synonyms: string[];
-  antonyms: string[];
-  ipaPronunciation?: string;
-}
+import { useAudioPlayback } from '@/hooks/use-audio-player';
+import { AudioPlaybackControls } from '@/components/translation/AudioPlaybackControls';
 
 interface LanguagePanelProps {
   /** Unique identifier for the panel and its textarea. */
@@ -31,10 +26,17 @@ interface LanguagePanelProps {
   text: string;
   /** Callback function when the text changes (for editable panels). */
   onTextChange?: (text: string) => void;
-  /** The language code of the text for TTS purposes. */
+  /** The language code of the text; drives TTS, text direction and which actions are offered. */
   currentLanguageForTTS: LanguageCode;
-  /** Callback function to trigger text-to-speech. */
+  /**
+   * Callback function to trigger text-to-speech. Audio it starts under this panel's `id` in the
+   * shared audio player turns the speak button into play/pause and shows playback controls.
+   */
   onSpeak?: () => void;
+  /** Server word timing for this panel's audio; without it the spoken word is estimated from the duration. */
+  spokenWordTimestamps?: readonly SpeechWordTimestamp[];
+  /** Callback function to save the last spoken audio; the download button shows only when set. */
+  onDownloadAudio?: () => void;
   /** Callback function to copy text to clipboard. */
   onCopy?: () => void;
   /** Callback function to clear the text. */
@@ -68,17 +70,44 @@ interface LanguagePanelProps {
   /** The currently active word for which definition is shown or loading. */
   activeWordForDefinition?: string | null;
   /** The fetched details for the active word. */
-  wordDetails?: GetWordDetailsOutput | null; // Use the local or passed generic type
+  wordDetails?: GetWordDetailsOutput | null;
   /** If true, indicates that word details are being loaded. */
   isWordDetailLoading?: boolean;
   /** Callback when the word definition popover closes. */
   onWordPopoverClose?: () => void;
   /** The current word count of the text. */
   wordCount?: number;
-  /** The maximum allowed word limit. */
+  /** Words per translation request; longer text is translated in chunks. */
   wordLimit?: number;
+  /** If true, shows a "From cache" indicator next to the actions. */
+  isServedFromCache?: boolean;
+  /** When set, files can be dropped on the panel or picked with an upload button. */
+  onFileSelect?: (file: File) => void;
+  /** `accept` value for the upload picker, e.g. ".txt,.md". */
+  acceptedFileTypes?: string;
+  /** Glossary terms to highlight wherever they appear in read-only text. */
+  highlightTerms?: string[];
+  /** When set, shows an edit toggle so read-only output can be post-edited in place. */
+  onToggleEditing?: () => void;
+  /** If true, the edit toggle shows as active. The caller makes the panel editable via `isReadOnly`. */
+  isEditing?: boolean;
+  /** When set, selecting a span of read-only text opens a popover with alternative renderings of it. */
+  onFetchPhraseAlternatives?: (phrase: string) => Promise<string[]>;
+  /** Splices a chosen alternative over the selected span `[start, end)` of `text`. */
+  onReplacePhrase?: (start: number, end: number, replacement: string) => void;
 }
 
+/** A selected span of the panel text and its alternatives, `null` while they load. */
+interface PhraseSelection {
+  start: number;
+  end: number;
+  phrase: string;
+  alternatives: string[] | null;
+}
+
+/** Marks the word being spoken while the panel's audio plays. */
+const SPOKEN_WORD_CLASS = "bg-primary/20 text-foreground";
+
 /**
  * LanguagePanel provides a UI for text input/display along with associated controls
  * like TTS, copy, clear, record, and word/suggestion features.
@@ -90,6 +119,8 @@ export function LanguagePanel({
   onTextChange,
   currentLanguageForTTS,
   onSpeak,
+  onDownloadAudio,
+  spokenWordTimestamps,
   onCopy,
   onClear,
   isReadOnly = false,
@@ -103,7 +134,7 @@ export function LanguagePanel({
   onToggleRecording,
   isRecording = false,
   isProcessingAudio = false,
-  isWordDefinitionEnabled = false,
+  isWordDefinitionEnabled: isWordDefinitionRequested = false,
   onWordClick,
   activeWordForDefinition,
   wordDetails,
@@ -111,22 +142,103 @@ export function LanguagePanel({
   onWordPopoverClose,
   wordCount,
   wordLimit,
+  isServedFromCache = false,
+  onFileSelect,
+  acceptedFileTypes,
+  highlightTerms,
+  onToggleEditing,
+  isEditing = false,
+  onFetchPhraseAlternatives,
+  onReplacePhrase,
 }: LanguagePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const clickableTextRef = useRef<HTMLDivElement | null>(null);
+  const phraseAnchorRef = useRef({ getBoundingClientRect: () => new DOMRect() });
+  const phraseRequestIdRef = useRef(0);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [phraseSelection, setPhraseSelection] = useState<PhraseSelection | null>(null);
+  const { player, playback } = useAudioPlayback(id);
+  // Audio from a panel that goes away would keep playing with no controls left to stop it.
+  useEffect(() => () => {
+    if (player.getState().ownerId === id) player.stop();
+  }, [player, id]);
+  const playbackDuration = playback?.duration ?? 0;
+  // While this panel's audio is loaded the text is shown as words, highlighting the one being spoken.
+  // Editable panels keep their textarea instead, so typing is never blocked by paused audio.
+  const spokenWordTimings = useMemo(
+    () => (isReadOnly && playbackDuration > 0 ? getSpokenWordTimings(text, playbackDuration, spokenWordTimestamps) : []),
+    [isReadOnly, text, playbackDuration, spokenWordTimestamps]
+  );
+  const isFollowingSpeech = spokenWordTimings.length > 0;
+  const spokenWord = playback && isFollowingSpeech ? findSpokenWord(spokenWordTimings, playback.currentTime) : null;
   const panelActionLoading = isLoadingSpeak || isProcessingAudio;
+  const language = getLanguage(currentLanguageForTTS);
+  const isWordDefinitionEnabled = isWordDefinitionRequested && language.capabilities.wordDetails;
+  const speakTooltip = !language.capabilities.tts
+    ? `Text-to-speech is not available for ${language.label}`
+    : playback?.status === 'playing' ? "Pause" : playback?.status === 'paused' ? "Resume" : "Speak Text";
+  const recordTooltip = !language.capabilities.stt
+    ? `Speech recognition is not available for ${language.label}`
+    : isProcessingAudio ? "Processing audio..." : isRecording ? "Stop recording" : "Start recording";
 
-  const renderTextWithClickableWords = () => {
-    if (!text && isReadOnly) return <span className="text-muted-foreground">{placeholder}</span>;
-    if (!text) return null;
-    
-    const parts = text.split(/([\s.,!?;:"“”（）]+)/g).filter(part => part.length > 0);
+  const editTooltip = isEditing ? "Done Editing" : "Edit Translation";
+
+  const hasHighlights = isReadOnly && !!highlightTerms && highlightTerms.length > 0;
+  const isPhraseSelectionEnabled = isReadOnly && !!onFetchPhraseAlternatives && !!onReplacePhrase && !isLoadingText;
+  // A selection made on older text is stale once the text changes underneath it.
+  const isPhrasePopoverOpen = !!phraseSelection && text.slice(phraseSelection.start, phraseSelection.end) === phraseSelection.phrase;
+
+  const closePhrasePopover = () => {
+    phraseRequestIdRef.current++;
+    setPhraseSelection(null);
+  };
+
+  /** Opens the phrase popover for the current text selection, if it lies inside this panel. */
+  const handlePhraseSelection = () => {
+    const container = clickableTextRef.current;
+    const selection = window.getSelection();
+    if (!container || !selection || selection.isCollapsed || selection.rangeCount === 0 || !onFetchPhraseAlternatives) return;
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.commonAncestorContainer)) return;
+
+    // The rendered spans reproduce `text` exactly, so DOM text offsets are offsets into `text`.
+    const prefixRange = document.createRange();
+    prefixRange.selectNodeContents(container);
+    prefixRange.setEnd(range.startContainer, range.startOffset);
+    let start = prefixRange.toString().length;
+    let end = start + range.toString().length;
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    const phrase = text.slice(start, end);
+    if (!phrase || phrase !== range.toString().trim()) return;
+
+    const rect = range.getBoundingClientRect();
+    phraseAnchorRef.current = { getBoundingClientRect: () => rect };
+    const requestId = ++phraseRequestIdRef.current;
+    setPhraseSelection({ start, end, phrase, alternatives: null });
+    onFetchPhraseAlternatives(phrase).then(alternatives => {
+      if (requestId === phraseRequestIdRef.current) {
+        setPhraseSelection(current => current && { ...current, alternatives });
+      }
+    });
+  };
+
+  /** Renders `segment`, found at `offset` in `text`, as word spans. */
+  const renderWords = (segment: string, offset: number) => {
+    const keyPrefix = `${id}-${offset}`;
+    const parts = segment.split(/([\s.,!?;:"“”（）]+)/g).filter(part => part.length > 0);
+    let partEnd = offset;
 
     return parts.map((part, index) => {
+      const partStart = partEnd;
+      partEnd += part.length;
       const isWord = !/[\s.,!?;:"“”（）]+/.test(part) && part.trim().length > 0;
+      const isSpoken = isWord && !!spokenWord && partStart < spokenWord.charEnd && spokenWord.charStart < partEnd;
       if (isWord && onWordClick && isWordDefinitionEnabled) { 
         const currentWord = part;
         return (
           <Popover
-            key={`${id}-word-${index}-${currentWord}`}
+            key={`${keyPrefix}-word-${index}-${currentWord}`}
             onOpenChange={(isOpen) => {
               if (isOpen) {
                 onWordClick(currentWord, currentLanguageForTTS);
@@ -136,7 +248,10 @@ export function LanguagePanel({
             }}
           >
             <PopoverTrigger asChild>
-              <span className="cursor-pointer hover:bg-accent rounded-[2px] px-[1px] -mx-[1px] py-[1px] -my-[1px]">
+              <span
+                // Finishing a phrase selection on a word should not also open its definition.
+                onClick={(e) => { if (isPhraseSelectionEnabled && !window.getSelection()?.isCollapsed) e.preventDefault(); }}
+                className={cn("cursor-pointer hover:bg-accent rounded-[2px] px-[1px] -mx-[1px] py-[1px] -my-[1px]", isSpoken && SPOKEN_WORD_CLASS)}>
                 {currentWord}
               </span>
             </PopoverTrigger>
@@ -181,17 +296,68 @@ export function LanguagePanel({
           </Popover>
         );
       }
-      return <span key={`${id}-space-${index}`}>{part}</span>;
+      return <span key={`${keyPrefix}-space-${index}`} className={cn(isSpoken && SPOKEN_WORD_CLASS)}>{part}</span>;
     });
   };
 
+  const renderTextWithClickableWords = () => {
+    if (!text && isReadOnly) return <span className="text-muted-foreground">{placeholder}</span>;
+    if (!text) return null;
+    if (!hasHighlights) return renderWords(text, 0);
+
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+    findTermRanges(text, highlightTerms).forEach(({ start, end }) => {
+      if (start > cursor) nodes.push(...renderWords(text.slice(cursor, start), cursor));
+      nodes.push(
+        <mark key={`${id}-term-${start}`} className="bg-amber-200/60 dark:bg-amber-500/30 text-inherit rounded-[2px]" title="Glossary term">
+          {renderWords(text.slice(start, end), start)}
+        </mark>
+      );
+      cursor = end;
+    });
+    if (cursor < text.length) nodes.push(...renderWords(text.slice(cursor), cursor));
+    return nodes;
+  };
+
+
+  const fileDropHandlers = onFileSelect ? {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDraggingFile(true);
+    },
+    onDragLeave: () => setIsDraggingFile(false),
+    onDrop: (e: React.DragEvent) => {
+      const file = e.dataTransfer.files[0];
+      setIsDraggingFile(false);
+      if (!file) return;
+      e.preventDefault();
+      onFileSelect(file);
+    },
+  } : {};
 
   return (
     <div className="flex flex-col flex-grow">
-      <div className="relative border border-input rounded-md bg-background p-3 flex-grow flex flex-col">
-        {isWordDefinitionEnabled && isReadOnly ? (
+      <div
+        className={cn(
+          "relative border border-input rounded-md bg-background p-3 flex-grow flex flex-col",
+          isDraggingFile && "border-primary border-dashed bg-accent/30"
+        )}
+        {...fileDropHandlers}
+      >
+        {isDraggingFile && (
+          <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-md text-sm font-medium text-primary">
+            <FileUp className="h-5 w-5 mr-2" /> Drop a document to translate
+          </div>
+        )}
+        {isFollowingSpeech || (isReadOnly && (isWordDefinitionEnabled || hasHighlights || isPhraseSelectionEnabled)) ? (
           <div
+            ref={clickableTextRef}
             id={`${id}-clickable`}
+            onMouseUp={isPhraseSelectionEnabled ? handlePhraseSelection : undefined}
+            lang={language.code}
+            dir={language.direction}
             className={cn(
               "flex-grow whitespace-pre-wrap break-words text-sm md:text-base leading-relaxed rounded-md min-h-[150px] sm:min-h-[180px] md:min-h-[200px] border-0 bg-transparent focus-visible:outline-none",
               (panelActionLoading || (id === 'translated-text-area' && isLoadingText)) ? "opacity-70 cursor-default" : ""
@@ -199,6 +365,45 @@ export function LanguagePanel({
             aria-label={`${id} text content`}
           >
             {renderTextWithClickableWords()}
+            {isPhraseSelectionEnabled && (
+              <Popover open={isPhrasePopoverOpen} onOpenChange={(isOpen) => { if (!isOpen) closePhrasePopover(); }}>
+                <PopoverAnchor virtualRef={phraseAnchorRef} />
+                <PopoverContent
+                  className="w-auto max-w-xs sm:max-w-sm p-3 shadow-xl rounded-lg z-50"
+                  onOpenAutoFocus={(e) => e.preventDefault()}
+                >
+                  <p className="text-xs text-muted-foreground mb-2">
+                    Alternatives for "<span className="text-foreground">{phraseSelection?.phrase}</span>"
+                  </p>
+                  {phraseSelection?.alternatives === null ? (
+                    <div className="flex items-center space-x-2 text-sm">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span>Finding alternatives...</span>
+                    </div>
+                  ) : phraseSelection?.alternatives.length ? (
+                    <ul className="space-y-1">
+                      {phraseSelection.alternatives.map((alternative, index) => (
+                        <li key={index}>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-full justify-start h-auto py-1.5 text-left whitespace-normal"
+                            onClick={() => {
+                              onReplacePhrase?.(phraseSelection.start, phraseSelection.end, alternative);
+                              closePhrasePopover();
+                            }}
+                          >
+                            {alternative}
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No alternatives found.</p>
+                  )}
+                </PopoverContent>
+              </Popover>
+            )}
           </div>
         ) : (
           <Textarea
@@ -207,6 +412,8 @@ export function LanguagePanel({
             onChange={(e) => onTextChange?.(e.target.value)}
             readOnly={isReadOnly || panelActionLoading}
             placeholder={placeholder}
+            lang={language.code}
+            dir={language.direction}
             className={cn(
               "flex-grow resize-none text-sm md:text-base leading-relaxed rounded-md min-h-[150px] sm:min-h-[180px] md:min-h-[200px] border-0 bg-transparent p-0 focus-visible:ring-0 focus-visible:ring-offset-0 focus-visible:outline-none", 
               (isReadOnly || panelActionLoading) ? "opacity-70 cursor-default" : ""
@@ -222,10 +429,13 @@ export function LanguagePanel({
                     <div className="text-right">
                         {typeof wordCount === 'number' && typeof wordLimit === 'number' && (
                             <>
-                            <span className={cn(wordCount >= wordLimit && "text-destructive font-medium")}>
+                            <span className={cn(wordCount > wordLimit && "text-primary font-medium")}>
                                 {wordCount}
                             </span>
                             <span> / {wordLimit}</span>
+                            {wordCount > wordLimit && (
+                              <span> · translated in chunks</span>
+                            )}
                             </>
                         )}
                     </div>
@@ -234,6 +444,8 @@ export function LanguagePanel({
         )}
       </div>
       
+      {playback && <AudioPlaybackControls className="mt-2" player={player} playback={playback} />}
+
       <div className="mt-2 flex items-center space-x-2 flex-wrap">
         {showRecordButton && onToggleRecording && (
           <Tooltip>
@@ -242,8 +454,8 @@ export function LanguagePanel({
                 variant="ghost"
                 size="icon"
                 onClick={onToggleRecording}
-                disabled={panelActionLoading || (isReadOnly && !onTextChange) || (id === 'translated-text-area' && isLoadingText)} 
-                aria-label={isProcessingAudio ? "Processing audio..." : isRecording ? "Stop recording" : "Start recording"}
+                disabled={panelActionLoading || (isReadOnly && !onTextChange) || (id === 'translated-text-area' && isLoadingText) || (!language.capabilities.stt && !isRecording)} 
+                aria-label={recordTooltip}
                 className={cn(
                   "rounded-md",
                   isRecording ? "text-destructive hover:text-destructive hover:bg-destructive/10" : "text-muted-foreground hover:text-primary hover:bg-accent"
@@ -252,7 +464,7 @@ export function LanguagePanel({
                 {isProcessingAudio ? <Loader2 className="h-5 w-5 animate-spin" /> : isRecording ? <StopCircle className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
               </Button>
             </TooltipTrigger>
-            <TooltipContent><p>{isProcessingAudio ? "Processing audio..." : isRecording ? "Stop recording" : "Start recording"}</p></TooltipContent>
+            <TooltipContent><p>{recordTooltip}</p></TooltipContent>
           </Tooltip>
         )}
         {showSpeakButton && onSpeak && (
@@ -261,15 +473,38 @@ export function LanguagePanel({
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={onSpeak}
-                disabled={!text || panelActionLoading || (id === 'translated-text-area' && isLoadingText)}
-                aria-label={`Speak text`}
+                onClick={() => {
+                  if (playback?.status === 'playing') player.pause();
+                  else if (playback?.status === 'paused') player.play().catch(() => {});
+                  else onSpeak();
+                }}
+                disabled={!text || panelActionLoading || playback?.status === 'loading' || (id === 'translated-text-area' && isLoadingText) || !language.capabilities.tts}
+                aria-label={speakTooltip}
+                className="rounded-md text-muted-foreground hover:text-primary hover:bg-accent"
+              >
+                {isLoadingSpeak || playback?.status === 'loading' ? <Loader2 className="h-5 w-5 animate-spin" />
+                  : playback?.status === 'playing' ? <Pause className="h-5 w-5" />
+                  : playback?.status === 'paused' ? <Play className="h-5 w-5" />
+                  : <Volume2 className="h-5 w-5" />}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent><p>{speakTooltip}</p></TooltipContent>
+          </Tooltip>
+        )}
+        {onDownloadAudio && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onDownloadAudio}
+                aria-label="Download audio"
                 className="rounded-md text-muted-foreground hover:text-primary hover:bg-accent"
               >
-                {isLoadingSpeak ? <Loader2 className="h-5 w-5 animate-spin" /> : <Volume2 className="h-5 w-5" />}
+                <Download className="h-5 w-5" />
               </Button>
             </TooltipTrigger>
-            <TooltipContent><p>Speak Text</p></TooltipContent>
+            <TooltipContent><p>Download Audio</p></TooltipContent>
           </Tooltip>
         )}
         {showCopyButton && onCopy && (
@@ -289,6 +524,24 @@ export function LanguagePanel({
             <TooltipContent><p>Copy Text</p></TooltipContent>
           </Tooltip>
         )}
+        {onToggleEditing && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={isEditing ? "secondary" : "ghost"}
+                size="icon"
+                onClick={onToggleEditing}
+                disabled={(!text && !isEditing) || isLoadingText || panelActionLoading}
+                aria-label={editTooltip}
+                aria-pressed={isEditing}
+                className={cn("rounded-md hover:text-primary hover:bg-accent", isEditing ? "text-primary" : "text-muted-foreground")}
+              >
+                {isEditing ? <Check className="h-5 w-5" /> : <Pencil className="h-5 w-5" />}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent><p>{editTooltip}</p></TooltipContent>
+          </Tooltip>
+        )}
         {showClearButton && onClear && (
           <Tooltip>
             <TooltipTrigger asChild>
@@ -306,6 +559,47 @@ export function LanguagePanel({
             <TooltipContent><p>Clear Text</p></TooltipContent>
           </Tooltip>
         )}
+        {onFileSelect && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={panelActionLoading || isRecording}
+                aria-label="Upload a document"
+                className="rounded-md text-muted-foreground hover:text-primary hover:bg-accent"
+              >
+                <FileUp className="h-5 w-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent><p>Upload Document</p></TooltipContent>
+          </Tooltip>
+        )}
+        {onFileSelect && (
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={acceptedFileTypes}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onFileSelect(file);
+            }}
+          />
+        )}
+        {isServedFromCache && text && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span className="ml-auto flex items-center gap-1 text-xs text-muted-foreground" aria-label="Served from cache">
+                <DatabaseZap className="h-4 w-4" />
+                From cache
+              </span>
+            </TooltipTrigger>
+            <TooltipContent><p>Served from the local translation cache, no API call was made.</p></TooltipContent>
+          </Tooltip>
+        )}
       </div>
     </div>
   );
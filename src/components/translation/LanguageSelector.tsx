@@ -1,30 +1,69 @@
-import type { Language, LanguageCode } from '@/lib/constants';
+import type { Language, LanguageCapability } from '@/lib/languages';
+import { groupLanguages } from '@/lib/languages';
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { cn } from '@/lib/utils';
 
-interface LanguageSelectorProps {
-  value: LanguageCode;
-  onChange: (value: LanguageCode) => void;
+interface LanguageSelectorProps<T extends string> {
+  value: T;
+  onChange: (value: T) => void;
+  /** Catalogue entries to offer; regional variants are grouped under their base language. */
   languages: readonly Language[];
+  /** Extra entry listed above the catalogue, such as "Auto-detect". */
+  leadingOption?: { value: T; label: string };
+  /** Languages lacking this capability are listed but cannot be picked. */
+  requiredCapability?: LanguageCapability;
   disabled?: boolean;
 }
 
-export function LanguageSelector({ value, onChange, languages, disabled }: LanguageSelectorProps) {
+export function LanguageSelector<T extends string>({
+  value,
+  onChange,
+  languages,
+  leadingOption,
+  requiredCapability,
+  disabled,
+}: LanguageSelectorProps<T>) {
+  const groups = groupLanguages(languages);
+
+  const renderItem = (lang: Language, isVariant: boolean) => (
+    <SelectItem
+      key={lang.code}
+      value={lang.code}
+      disabled={requiredCapability !== undefined && !lang.capabilities[requiredCapability]}
+      title={lang.nativeName}
+      className={cn("text-xs sm:text-sm", isVariant && "pl-11")}
+    >
+      {lang.label}
+    </SelectItem>
+  );
+
   return (
-    <Select value={value} onValueChange={onChange} disabled={disabled}>
+    <Select value={value} onValueChange={(newValue) => onChange(newValue as T)} disabled={disabled}>
       <SelectTrigger className="w-full sm:w-[150px] md:w-[180px] text-xs sm:text-sm rounded-md shadow-sm h-9 md:h-10">
         <SelectValue placeholder="Select language" />
       </SelectTrigger>
       <SelectContent>
-        {languages.map((lang) => (
-          <SelectItem key={lang.value} value={lang.value} className="text-xs sm:text-sm">
-            {lang.label}
-          </SelectItem>
+        {leadingOption && (
+          <>
+            <SelectItem value={leadingOption.value} className="text-xs sm:text-sm">
+              {leadingOption.label}
+            </SelectItem>
+            <SelectSeparator />
+          </>
+        )}
+        {groups.map((group) => (
+          <SelectGroup key={group.base.code}>
+            {renderItem(group.base, false)}
+            {group.variants.map((variant) => renderItem(variant, true))}
+          </SelectGroup>
         ))}
       </SelectContent>
     </Select>
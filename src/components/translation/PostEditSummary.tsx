@@ -0,0 +1,62 @@
+/**
+ * @fileOverview PostEditSummary.tsx - Summarizes how the translation panel was post-edited by
+ * hand, shows the word-level changes against the machine translation and offers to revert them.
+ */
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { PenLine, Undo2 } from 'lucide-react';
+import { countChangedWords, diffWords } from '@/lib/text-diff';
+import { cn } from '@/lib/utils';
+
+interface PostEditSummaryProps {
+  className?: string;
+  /** The translation as the machine produced it. */
+  machineText: string;
+  /** The translation as it reads after the user's edits. */
+  editedText: string;
+  /** Restores the machine translation. */
+  onRevert: () => void;
+  disabled?: boolean;
+}
+
+export function PostEditSummary({ className, machineText, editedText, onRevert, disabled = false }: PostEditSummaryProps) {
+  const [isShowingChanges, setIsShowingChanges] = useState(false);
+  const diff = useMemo(() => diffWords(machineText, editedText), [machineText, editedText]);
+  const { inserted, deleted } = countChangedWords(diff);
+
+  return (
+    <div className={cn("rounded-md border border-dashed p-3 space-y-2 text-sm", className)} aria-label="Manual edits">
+      <div className="flex items-center gap-2 flex-wrap">
+        <PenLine className="h-4 w-4 text-primary" />
+        <span className="font-medium">Post-edited</span>
+        <span className="text-xs text-muted-foreground">
+          {inserted} {inserted === 1 ? 'word' : 'words'} added, {deleted} removed
+        </span>
+        <div className="ml-auto flex gap-1">
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setIsShowingChanges(prev => !prev)}>
+            {isShowingChanges ? 'Hide changes' : 'Show changes'}
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onRevert} disabled={disabled}>
+            <Undo2 className="h-3.5 w-3.5 mr-1" /> Revert to machine translation
+          </Button>
+        </div>
+      </div>
+      {isShowingChanges && (
+        <p className="whitespace-pre-wrap break-words leading-relaxed max-h-48 overflow-y-auto">
+          {diff.map((part, index) => (
+            <span
+              key={index}
+              className={cn(
+                part.type === 'insert' && "bg-green-200/70 dark:bg-green-500/30 rounded-[2px]",
+                part.type === 'delete' && "bg-red-200/70 dark:bg-red-500/30 line-through text-muted-foreground rounded-[2px]"
+              )}
+            >
+              {part.text}
+            </span>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
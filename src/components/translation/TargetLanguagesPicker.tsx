@@ -0,0 +1,82 @@
+/**
+ * @fileOverview TargetLanguagesPicker.tsx - A popover checklist for choosing extra target
+ * languages. The text is translated into each of them alongside the main target.
+ */
+
+import type { LanguageCode } from '@/lib/languages';
+import { getLanguagesWith } from '@/lib/languages';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Plus } from 'lucide-react';
+
+interface TargetLanguagesPickerProps {
+  /** Extra target languages currently chosen. */
+  selected: readonly LanguageCode[];
+  onChange: (languages: LanguageCode[]) => void;
+  /** The main target, which is always translated and so not offered here. */
+  primaryTarget: LanguageCode;
+  disabled?: boolean;
+}
+
+export function TargetLanguagesPicker({ selected, onChange, primaryTarget, disabled = false }: TargetLanguagesPickerProps) {
+  const languages = getLanguagesWith('translate').filter(language => language.code !== primaryTarget);
+  const count = selected.filter(code => code !== primaryTarget).length;
+
+  const toggleLanguage = (code: LanguageCode, isChecked: boolean) => {
+    onChange(isChecked
+      ? [...selected, code]
+      : selected.filter(selectedCode => selectedCode !== code));
+  };
+
+  return (
+    <Popover>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              variant={count > 0 ? 'secondary' : 'ghost'}
+              size="icon"
+              className="relative h-9 w-9"
+              disabled={disabled}
+              aria-label="More target languages"
+            >
+              <Plus className="h-4 w-4" />
+              {count > 0 && (
+                <Badge className="absolute -top-1.5 -right-1.5 h-4 min-w-4 px-1 text-[10px] leading-none tabular-nums">
+                  {count}
+                </Badge>
+              )}
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent><p>More Target Languages</p></TooltipContent>
+      </Tooltip>
+      <PopoverContent align="end" className="w-60 p-3">
+        <p className="text-sm font-medium">Also translate into</p>
+        <p className="text-xs text-muted-foreground mb-2">Each language gets its own result card.</p>
+        <ul className="max-h-64 overflow-y-auto space-y-1">
+          {languages.map(language => (
+            <li key={language.code}>
+              <label className="flex items-center gap-2 rounded-sm px-1 py-1 text-sm cursor-pointer hover:bg-accent">
+                <Checkbox
+                  checked={selected.includes(language.code)}
+                  onCheckedChange={(checked) => toggleLanguage(language.code, checked === true)}
+                />
+                <span className="flex-1">{language.label}</span>
+                <span className="text-xs text-muted-foreground">{language.nativeName}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+        {count > 0 && (
+          <Button variant="ghost" size="sm" className="mt-2 w-full" onClick={() => onChange([])}>
+            Clear selection
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * @fileOverview TargetTranslationCard.tsx - Result card for one extra target language, showing its
+ * own translation status next to a read-only panel with speech, copy and word details.
+ */
+
+import { useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RotateCw, X } from 'lucide-react';
+import type { GetWordDetailsOutput, SpeechWordTimestamp } from '@/lib/api';
+import type { LanguageCode } from '@/lib/languages';
+import { getLanguageLabel } from '@/lib/languages';
+import type { TargetTranslation, TargetTranslationStatus } from '@/hooks/use-multi-target-translation';
+import { LanguagePanel } from '@/components/translation/LanguagePanel';
+import { cn } from '@/lib/utils';
+
+interface TargetTranslationCardProps {
+  className?: string;
+  /** Id of the card's panel; also the owner id of the audio it plays. */
+  panelId: string;
+  translation: TargetTranslation;
+  onRetry: () => void;
+  onRemove: () => void;
+  onSpeak: (text: string, language: LanguageCode, ownerId: string, setLoading: Dispatch<SetStateAction<boolean>>) => void;
+  /** Saves the last spoken audio; omitted until the translation has been spoken. */
+  onDownloadAudio?: () => void;
+  spokenWordTimestamps?: readonly SpeechWordTimestamp[];
+  onCopy: (text: string) => void;
+  onWordClick: (word: string, language: LanguageCode) => void;
+  activeWordForDefinition: string | null;
+  wordDetails: GetWordDetailsOutput | null;
+  isWordDetailLoading: boolean;
+  onWordPopoverClose: () => void;
+}
+
+const STATUS_LABELS: Record<TargetTranslationStatus, string> = {
+  idle: 'Waiting',
+  queued: 'Queued',
+  translating: 'Translating',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+export function TargetTranslationCard({
+  className,
+  panelId,
+  translation,
+  onRetry,
+  onRemove,
+  onSpeak,
+  onDownloadAudio,
+  spokenWordTimestamps,
+  onCopy,
+  onWordClick,
+  activeWordForDefinition,
+  wordDetails,
+  isWordDetailLoading,
+  onWordPopoverClose,
+}: TargetTranslationCardProps) {
+  const [isLoadingSpeak, setIsLoadingSpeak] = useState(false);
+  const { language, status, translatedText, error, isFromCache } = translation;
+  const label = getLanguageLabel(language);
+  const isBusy = status === 'queued' || status === 'translating';
+
+  return (
+    <Card className={cn("shadow-lg rounded-xl border-slate-300 dark:border-slate-700", className)}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            {label}
+            <Badge
+              variant={status === 'failed' ? 'destructive' : status === 'done' ? 'default' : 'secondary'}
+              className="font-normal"
+            >
+              {STATUS_LABELS[status]}
+            </Badge>
+          </CardTitle>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove} aria-label={`Stop translating into ${label}`}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {status === 'failed' && (
+          <div className="flex items-center gap-3">
+            <p className="text-sm text-destructive flex-1">{error}</p>
+            <Button variant="outline" size="sm" onClick={onRetry}>
+              <RotateCw className="h-4 w-4 mr-1" /> Retry
+            </Button>
+          </div>
+        )}
+        <LanguagePanel
+          id={panelId}
+          text={translatedText}
+          currentLanguageForTTS={language}
+          onSpeak={() => onSpeak(translatedText, language, panelId, setIsLoadingSpeak)}
+          onDownloadAudio={onDownloadAudio}
+          spokenWordTimestamps={spokenWordTimestamps}
+          onCopy={() => onCopy(translatedText)}
+          isReadOnly={true}
+          placeholder={isBusy ? `Translating into ${label}...` : 'Translation appears here...'}
+          isLoadingSpeak={isLoadingSpeak}
+          isLoadingText={isBusy}
+          showCopyButton={true}
+          showSpeakButton={true}
+          showClearButton={false}
+          isWordDefinitionEnabled={status === 'done'}
+          onWordClick={onWordClick}
+          activeWordForDefinition={activeWordForDefinition}
+          wordDetails={wordDetails}
+          isWordDetailLoading={isWordDetailLoading}
+          onWordPopoverClose={onWordPopoverClose}
+          isServedFromCache={isFromCache}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * @fileOverview TranslationAlternatives.tsx - Controls for alternative translations: a menu to
+ * choose how many alternatives to request, and a switcher between the returned renderings.
+ */
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Layers } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/** Choices offered for how many alternatives to request; 0 turns the feature off. */
+const ALTERNATIVE_COUNTS = [0, 1, 2, 3, 4];
+
+interface AlternativesCountMenuProps {
+  /** Alternatives requested with each translation. */
+  count: number;
+  onCountChange: (count: number) => void;
+  disabled?: boolean;
+}
+
+export function AlternativesCountMenu({ count, onCountChange, disabled = false }: AlternativesCountMenuProps) {
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant={count > 0 ? 'secondary' : 'ghost'}
+              size="icon"
+              className="h-9 w-9"
+              disabled={disabled}
+              aria-label="Alternative translations"
+            >
+              <Layers className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent><p>Alternative Translations</p></TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Alternatives per translation</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={String(count)} onValueChange={(value) => onCountChange(Number(value))}>
+          {ALTERNATIVE_COUNTS.map(option => (
+            <DropdownMenuRadioItem key={option} value={String(option)}>
+              {option === 0 ? 'Off' : option}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface TranslationAlternativesSwitcherProps {
+  className?: string;
+  /** The main translation first, followed by its alternatives. */
+  options: readonly string[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+export function TranslationAlternativesSwitcher({
+  className,
+  options,
+  selectedIndex,
+  onSelect,
+  disabled = false,
+}: TranslationAlternativesSwitcherProps) {
+  if (options.length < 2) return null;
+
+  return (
+    <div className={cn("flex items-center gap-1 flex-wrap text-sm", className)} role="radiogroup" aria-label="Alternative translations">
+      <span className="text-xs text-muted-foreground mr-1">Alternatives</span>
+      {options.map((option, index) => (
+        <Tooltip key={index}>
+          <TooltipTrigger asChild>
+            <Button
+              size="sm"
+              variant={index === selectedIndex ? 'default' : 'outline'}
+              className="h-7 min-w-7 px-2 text-xs"
+              onClick={() => onSelect(index)}
+              disabled={disabled}
+              role="radio"
+              aria-checked={index === selectedIndex}
+              aria-label={index === 0 ? 'Main translation' : `Alternative ${index}`}
+            >
+              {index === 0 ? 'Main' : index}
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent className="max-w-xs"><p className="line-clamp-4">{option}</p></TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
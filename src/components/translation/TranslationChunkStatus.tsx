@@ -0,0 +1,87 @@
+
+/**
+ * @fileOverview TranslationChunkStatus.tsx - Shows the per-chunk progress of a long translation
+ * that was split to stay under the server's word limit, with a retry action for failed chunks.
+ */
+
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Check, Clock, Loader2, RotateCw, X } from 'lucide-react';
+import type { TranslationChunk, TranslationChunkStatus as ChunkStatus } from '@/lib/chunked-translation';
+import { cn } from '@/lib/utils';
+
+interface TranslationChunkStatusProps {
+  className?: string;
+  chunks: readonly TranslationChunk[];
+  /** Re-runs every failed chunk. Hidden while any chunk is still in progress. */
+  onRetryFailed: () => void;
+}
+
+const STATUS_LABELS: Record<ChunkStatus, string> = {
+  pending: 'Waiting',
+  translating: 'Translating',
+  retrying: 'Retrying',
+  done: 'Translated',
+  failed: 'Failed',
+};
+
+const STATUS_STYLES: Record<ChunkStatus, string> = {
+  pending: 'border-border text-muted-foreground',
+  translating: 'border-primary/50 text-primary',
+  retrying: 'border-amber-500/60 text-amber-600 dark:text-amber-400',
+  done: 'border-green-600/40 text-green-700 dark:text-green-400',
+  failed: 'border-destructive/60 text-destructive',
+};
+
+function StatusIcon({ status }: { status: ChunkStatus }) {
+  switch (status) {
+    case 'pending':
+      return <Clock className="h-3 w-3" />;
+    case 'translating':
+      return <Loader2 className="h-3 w-3 animate-spin" />;
+    case 'retrying':
+      return <RotateCw className="h-3 w-3 animate-spin" />;
+    case 'done':
+      return <Check className="h-3 w-3" />;
+    case 'failed':
+      return <X className="h-3 w-3" />;
+  }
+}
+
+export function TranslationChunkStatus({ className, chunks, onRetryFailed }: TranslationChunkStatusProps) {
+  const doneCount = chunks.filter(chunk => chunk.status === 'done').length;
+  const failedCount = chunks.filter(chunk => chunk.status === 'failed').length;
+  const isSettled = chunks.every(chunk => chunk.status === 'done' || chunk.status === 'failed');
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1.5 text-xs", className)} aria-label="Translation chunk status">
+      <span className="text-muted-foreground mr-1">
+        Chunks {doneCount}/{chunks.length}
+      </span>
+      {chunks.map(chunk => (
+        <Tooltip key={chunk.index}>
+          <TooltipTrigger asChild>
+            <span
+              className={cn("inline-flex items-center gap-1 rounded-md border px-1.5 py-0.5", STATUS_STYLES[chunk.status])}
+              aria-label={`Chunk ${chunk.index + 1}: ${STATUS_LABELS[chunk.status]}`}
+            >
+              <StatusIcon status={chunk.status} />
+              {chunk.index + 1}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent className="max-w-xs">
+            <p className="font-medium">Chunk {chunk.index + 1}: {STATUS_LABELS[chunk.status]}</p>
+            {chunk.attempts > 1 && <p>Attempt {chunk.attempts}</p>}
+            {chunk.error && chunk.status !== 'done' && <p className="text-destructive">{chunk.error}</p>}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+      {isSettled && failedCount > 0 && (
+        <Button variant="outline" size="sm" className="h-6 px-2 text-xs ml-1" onClick={onRetryFailed}>
+          <RotateCw className="mr-1 h-3 w-3" />
+          Retry {failedCount} failed
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+
+/**
+ * @fileOverview TranslationMemorySuggestions.tsx - Lists translation memory fuzzy matches for the
+ * sentences of the current source text, with an action to use them instead of calling the API.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Library } from 'lucide-react';
+import type { TranslationMemorySegment } from '@/lib/translation-memory';
+import { cn } from '@/lib/utils';
+
+interface TranslationMemorySuggestionsProps {
+  className?: string;
+  segments: readonly TranslationMemorySegment[];
+  /** Replaces the translation with the matched sentences. Offered only when every sentence matched. */
+  onAccept: () => void;
+  disabled?: boolean;
+}
+
+export function TranslationMemorySuggestions({ className, segments, onAccept, disabled = false }: TranslationMemorySuggestionsProps) {
+  const matchedSegments = segments.filter(segment => segment.match);
+  if (matchedSegments.length === 0) return null;
+  const isFullyMatched = matchedSegments.length === segments.length;
+
+  return (
+    <div className={cn("rounded-md border border-dashed p-3 space-y-2 text-sm", className)} aria-label="Translation memory matches">
+      <div className="flex items-center gap-2">
+        <Library className="h-4 w-4 text-primary" />
+        <span className="font-medium">Translation memory</span>
+        <span className="text-xs text-muted-foreground">
+          {matchedSegments.length} of {segments.length} {segments.length === 1 ? 'sentence' : 'sentences'} matched
+        </span>
+        {isFullyMatched && (
+          <Button size="sm" variant="outline" className="ml-auto h-7 text-xs" onClick={onAccept} disabled={disabled}>
+            Use match{matchedSegments.length > 1 ? 'es' : ''}
+          </Button>
+        )}
+      </div>
+      <ul className="space-y-2 max-h-48 overflow-y-auto">
+        {matchedSegments.map((segment, index) => segment.match && (
+          <li key={`${segment.match.entry.id}-${index}`} className="flex items-start gap-2">
+            <Badge
+              variant={segment.match.similarity === 1 ? 'default' : 'secondary'}
+              className="font-normal shrink-0 tabular-nums"
+              title={segment.match.similarity === 1 ? 'Exact match' : 'Fuzzy match'}
+            >
+              {Math.round(segment.match.similarity * 100)}%
+            </Badge>
+            <div className="min-w-0">
+              <p className="text-xs text-muted-foreground break-words">{segment.match.entry.sourceText}</p>
+              <p className="break-words">{segment.match.entry.targetText}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * @fileOverview TranslationOptionsPopover.tsx - Compact popover next to the Translate button for
+ * the formality, domain and Vietnamese pronoun options sent with translation requests. Options
+ * are stored per language pair.
+ */
+
+import { useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { RootState } from '@/store/store';
+import { resetTranslationOptions, selectTranslationOptionsForPair, setTranslationOptions } from '@/store/slices/translationOptionsSlice';
+import type { LanguageCode } from '@/lib/languages';
+import { getLanguageLabel } from '@/lib/languages';
+import type { TranslationOptions } from '@/lib/translation-options';
+import {
+  DOMAIN_OPTIONS,
+  FORMALITY_OPTIONS,
+  VIETNAMESE_PRONOUN_OPTIONS,
+  countActiveTranslationOptions,
+  usesVietnamesePronouns,
+} from '@/lib/translation-options';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface TranslationOptionsPopoverProps {
+  /** The concrete source language; options are stored for this pair. */
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+  disabled?: boolean;
+}
+
+export function TranslationOptionsPopover({ sourceLanguage, targetLanguage, disabled = false }: TranslationOptionsPopoverProps) {
+  const dispatch = useDispatch();
+  const translationOptions = useSelector((state: RootState) => state.translationOptions);
+  const options = useMemo(
+    () => selectTranslationOptionsForPair(translationOptions, sourceLanguage, targetLanguage),
+    [translationOptions, sourceLanguage, targetLanguage]
+  );
+  const activeCount = countActiveTranslationOptions(options, targetLanguage);
+  const showPronouns = usesVietnamesePronouns(targetLanguage);
+
+  const updateOptions = (changes: Partial<TranslationOptions>) => {
+    dispatch(setTranslationOptions({ sourceLanguage, targetLanguage, options: { ...options, ...changes } }));
+  };
+
+  return (
+    <Popover>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              variant={activeCount > 0 ? 'secondary' : 'outline'}
+              size="icon"
+              disabled={disabled}
+              className="relative rounded-md p-2 shadow-sm hover:shadow-md transition-all"
+              aria-label="Translation options"
+            >
+              <SlidersHorizontal className="h-5 w-5" />
+              {activeCount > 0 && (
+                <span className="absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full bg-primary" aria-hidden="true" />
+              )}
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent><p>Translation Options</p></TooltipContent>
+      </Tooltip>
+      <PopoverContent className="w-72 p-4 space-y-3">
+        <div>
+          <p className="text-sm font-medium">Translation options</p>
+          <p className="text-xs text-muted-foreground">
+            Remembered for {getLanguageLabel(sourceLanguage)} → {getLanguageLabel(targetLanguage)}.
+          </p>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="translation-formality" className="text-xs">Formality</Label>
+          <Select
+            value={options.formality}
+            onValueChange={(value) => updateOptions({ formality: value as TranslationOptions['formality'] })}
+          >
+            <SelectTrigger id="translation-formality" className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORMALITY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="text-sm">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="translation-domain" className="text-xs">Domain</Label>
+          <Select
+            value={options.domain}
+            onValueChange={(value) => updateOptions({ domain: value as TranslationOptions['domain'] })}
+          >
+            <SelectTrigger id="translation-domain" className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DOMAIN_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="text-sm">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {showPronouns && (
+          <div className="space-y-1.5">
+            <Label htmlFor="translation-pronouns" className="text-xs">Vietnamese pronouns</Label>
+            <Select
+              value={options.vietnamesePronouns}
+              onValueChange={(value) => updateOptions({ vietnamesePronouns: value as TranslationOptions['vietnamesePronouns'] })}
+            >
+              <SelectTrigger id="translation-pronouns" className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VIETNAMESE_PRONOUN_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value} className="text-sm">
+                    {option.label}
+                    {option.description && <span className="ml-2 text-xs text-muted-foreground">{option.description}</span>}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {activeCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => dispatch(resetTranslationOptions({ sourceLanguage, targetLanguage }))}
+          >
+            Reset to defaults
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
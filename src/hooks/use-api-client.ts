@@ -0,0 +1,8 @@
+import { useContext } from 'react';
+import { ApiClientContext } from '@/lib/api';
+import type { ApiClient } from '@/lib/api';
+
+/** Returns the ApiClient provided by the nearest `ApiClientContext.Provider`. */
+export function useApiClient(): ApiClient {
+  return useContext(ApiClientContext);
+}
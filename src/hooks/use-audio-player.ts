@@ -0,0 +1,18 @@
+import { useContext, useSyncExternalStore } from 'react';
+import { AudioPlayerContext } from '@/lib/audio';
+import type { AudioPlayer } from '@/lib/audio';
+
+/** Returns the AudioPlayer provided by the nearest `AudioPlayerContext.Provider`. */
+export function useAudioPlayer(): AudioPlayer {
+  return useContext(AudioPlayerContext);
+}
+
+/**
+ * Follows the shared audio player on behalf of `ownerId`: `playback` is the player's state while
+ * it holds a clip that `ownerId` started, and null otherwise.
+ */
+export function useAudioPlayback(ownerId: string) {
+  const player = useAudioPlayer();
+  const state = useSyncExternalStore(player.subscribe, player.getState);
+  return { player, playback: state.ownerId === ownerId ? state : null };
+}
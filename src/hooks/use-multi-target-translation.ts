@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { RootState } from '@/store/store';
+import { cacheTranslation, getCachedTranslation, makeTranslationCacheKey, touchTranslation } from '@/store/slices/translationCacheSlice';
+import { selectGlossaryForPair } from '@/store/slices/glossarySlice';
+import { selectTranslationOptionsForPair } from '@/store/slices/translationOptionsSlice';
+import { useApiClient } from '@/hooks/use-api-client';
+import { describeApiError } from '@/lib/api';
+import type { LanguageCode, SourceLanguageCode } from '@/lib/languages';
+import { getSourceLocale } from '@/lib/languages';
+import { prepareGlossaryText } from '@/lib/glossary';
+import type { InputFormat } from '@/lib/format-protection';
+import { protectFormatting, withFormatProtection } from '@/lib/format-protection';
+import { getTranslationOptionsCacheVariant, getTranslationRequestOptions } from '@/lib/translation-options';
+import type { ConcurrencyLimiter } from '@/lib/concurrency';
+import { createTranslationChunks, stitchTranslationChunks, translateChunks } from '@/lib/chunked-translation';
+
+export type TargetTranslationStatus = 'idle' | 'queued' | 'translating' | 'done' | 'failed';
+
+export interface TargetTranslation {
+  language: LanguageCode;
+  status: TargetTranslationStatus;
+  translatedText: string;
+  error?: string;
+  isFromCache: boolean;
+}
+
+export interface CompletedTargetTranslation {
+  sourceText: string;
+  /** `auto` when the client could not tell the language and left it to the server. */
+  sourceLanguage: SourceLanguageCode;
+  targetLanguage: LanguageCode;
+  translatedText: string;
+}
+
+interface UseMultiTargetTranslationOptions {
+  /** Languages to fan out to, besides the main target. */
+  targets: readonly LanguageCode[];
+  wordLimit: number;
+  /** How many of one target's chunks are queued on `limiter` at once. */
+  maxConcurrentRequests: number;
+  /** Shared with the main translation, so the concurrency cap covers every request. */
+  limiter: ConcurrencyLimiter;
+  supportsGlossary: boolean;
+  /** Markup and placeholders of this format are kept out of the translation. */
+  inputFormat: InputFormat;
+  /** Called once per target whose translation finished, including cache hits. */
+  onTargetTranslated?: (result: CompletedTargetTranslation) => void;
+}
+
+const idleTranslation = (language: LanguageCode): TargetTranslation => ({
+  language,
+  status: 'idle',
+  translatedText: '',
+  isFromCache: false,
+});
+
+/**
+ * Translates the source text into several extra target languages at once. Every target keeps its
+ * own status and abort controller, while the caller's limiter caps the requests in flight across
+ * all of them and the main translation. Long text is chunked exactly like the main translation.
+ */
+export function useMultiTargetTranslation({
+  targets,
+  wordLimit,
+  maxConcurrentRequests,
+  limiter,
+  supportsGlossary,
+  inputFormat,
+  onTargetTranslated,
+}: UseMultiTargetTranslationOptions) {
+  const apiClient = useApiClient();
+  const dispatch = useDispatch();
+  const translationCache = useSelector((state: RootState) => state.translationCache);
+  const glossary = useSelector((state: RootState) => state.glossary);
+  const translationOptions = useSelector((state: RootState) => state.translationOptions);
+  const [results, setResults] = useState<Partial<Record<LanguageCode, TargetTranslation>>>({});
+  const abortControllersRef = useRef(new Map<LanguageCode, AbortController>());
+  /** Source language, format, options and text each target was last translated with, to skip repeat requests. */
+  const requestKeysRef = useRef(new Map<LanguageCode, string>());
+  const lastRequestRef = useRef<{ text: string; sourceLanguage: SourceLanguageCode } | null>(null);
+
+  useEffect(() => {
+    abortControllersRef.current.forEach((abortController, language) => {
+      if (targets.includes(language)) return;
+      abortController.abort();
+      abortControllersRef.current.delete(language);
+      requestKeysRef.current.delete(language);
+    });
+  }, [targets]);
+
+  useEffect(() => {
+    const abortControllers = abortControllersRef.current;
+    return () => abortControllers.forEach(abortController => abortController.abort());
+  }, []);
+
+  const updateResult = useCallback((language: LanguageCode, changes: Partial<TargetTranslation>) => {
+    setResults(prev => ({ ...prev, [language]: { ...(prev[language] ?? idleTranslation(language)), ...changes } }));
+  }, []);
+
+  const translateTarget = useCallback(async (
+    language: LanguageCode,
+    text: string,
+    sourceLanguage: SourceLanguageCode,
+    force: boolean
+  ) => {
+    const requestOptions = getTranslationRequestOptions(
+      selectTranslationOptionsForPair(translationOptions, sourceLanguage, language),
+      language
+    );
+    const optionsVariant = getTranslationOptionsCacheVariant(requestOptions);
+    const requestKey = `${sourceLanguage}|${inputFormat}|${optionsVariant}|${text}`;
+    if (!force && requestKeysRef.current.get(language) === requestKey) return;
+
+    abortControllersRef.current.get(language)?.abort();
+    abortControllersRef.current.delete(language);
+    requestKeysRef.current.set(language, requestKey);
+    const completed = (translatedText: string, isFromCache: boolean) => {
+      updateResult(language, { status: 'done', translatedText, isFromCache, error: undefined });
+      onTargetTranslated?.({ sourceText: text, sourceLanguage, targetLanguage: language, translatedText });
+    };
+
+    if (language === sourceLanguage) {
+      updateResult(language, { status: 'done', translatedText: text, isFromCache: false, error: undefined });
+      return;
+    }
+
+    const protectedText = protectFormatting(text, inputFormat);
+    const prepared = withFormatProtection(protectedText, prepareGlossaryText(
+      protectedText.text,
+      selectGlossaryForPair(glossary, sourceLanguage, language),
+      { useServerGlossary: supportsGlossary }
+    ));
+    const cacheVariant = [prepared.cacheVariant, optionsVariant].filter(Boolean).join(';');
+    const cacheKey = makeTranslationCacheKey(prepared.text, sourceLanguage, language, cacheVariant);
+    const cachedTranslation = getCachedTranslation(translationCache, cacheKey);
+    if (cachedTranslation !== null) {
+      dispatch(touchTranslation(cacheKey));
+      completed(prepared.restore(cachedTranslation), true);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllersRef.current.set(language, abortController);
+    updateResult(language, { status: 'queued', translatedText: '', isFromCache: false, error: undefined });
+
+    try {
+      const chunks = await translateChunks(createTranslationChunks(prepared.text, wordLimit, getSourceLocale(sourceLanguage)), {
+        concurrency: maxConcurrentRequests,
+        signal: abortController.signal,
+        translate: (chunkText, signal) => limiter(async () => {
+          updateResult(language, { status: 'translating' });
+          const result = await apiClient.translateText({
+            text: chunkText,
+            sourceLanguage,
+            targetLanguage: language,
+            glossary: prepared.serverGlossary,
+            ...requestOptions,
+          }, { signal });
+          return result.translatedText;
+        }, signal),
+      });
+      const failedChunk = chunks.find(chunk => chunk.status === 'failed');
+      if (failedChunk) {
+        throw new Error(failedChunk.error ?? 'Part of the text could not be translated');
+      }
+      const rawTranslation = stitchTranslationChunks(chunks);
+      dispatch(cacheTranslation({ key: cacheKey, translatedText: rawTranslation }));
+      if (abortControllersRef.current.get(language) === abortController) {
+        completed(prepared.restore(rawTranslation), false);
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      console.error(`Translation error (${language}):`, error);
+      requestKeysRef.current.delete(language);
+      updateResult(language, { status: 'failed', error: describeApiError(error, 'translation service', 'Translation error') });
+    } finally {
+      if (abortControllersRef.current.get(language) === abortController) {
+        abortControllersRef.current.delete(language);
+      }
+    }
+  }, [apiClient, dispatch, glossary, inputFormat, limiter, maxConcurrentRequests, onTargetTranslated, supportsGlossary, translationCache, translationOptions, updateResult, wordLimit]);
+
+  /** Translates `text` into every target not already translated from it. */
+  const translateAll = useCallback((text: string, sourceLanguage: SourceLanguageCode) => {
+    if (!text.trim()) {
+      abortControllersRef.current.forEach(abortController => abortController.abort());
+      abortControllersRef.current.clear();
+      requestKeysRef.current.clear();
+      lastRequestRef.current = null;
+      setResults({});
+      return;
+    }
+    lastRequestRef.current = { text, sourceLanguage };
+    targets.forEach(language => translateTarget(language, text, sourceLanguage, false));
+  }, [targets, translateTarget]);
+
+  /** Translates one target again from the last text. */
+  const retryTarget = useCallback((language: LanguageCode) => {
+    const lastRequest = lastRequestRef.current;
+    if (lastRequest) translateTarget(language, lastRequest.text, lastRequest.sourceLanguage, true);
+  }, [translateTarget]);
+
+  const translations = useMemo(
+    () => targets.map(language => results[language] ?? idleTranslation(language)),
+    [targets, results]
+  );
+
+  return { translations, translateAll, retryTarget };
+}
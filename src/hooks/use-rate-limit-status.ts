@@ -0,0 +1,25 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useApiClient } from '@/hooks/use-api-client';
+
+/** How often the countdown refreshes while requests are held. */
+const COUNTDOWN_TICK_MS = 250;
+
+/**
+ * Follows the API client's rate limiter: how many whole seconds remain until held requests are
+ * sent again (0 when nothing is held back) and how many requests are waiting.
+ */
+export function useRateLimitStatus() {
+  const { rateLimiter } = useApiClient();
+  const { blockedUntil, queuedRequests } = useSyncExternalStore(rateLimiter.subscribe, rateLimiter.getState);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (blockedUntil === null) return;
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), COUNTDOWN_TICK_MS);
+    return () => clearInterval(intervalId);
+  }, [blockedUntil]);
+
+  const secondsUntilUnblocked = blockedUntil === null ? 0 : Math.max(0, Math.ceil((blockedUntil - now) / 1000));
+  return { secondsUntilUnblocked, queuedRequests };
+}
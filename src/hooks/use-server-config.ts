@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { useApiClient } from '@/hooks/use-api-client';
+import { TRANSLATION_CONCURRENCY, WORD_LIMIT } from '@/lib/constants';
+
+export interface ResolvedServerConfig {
+  wordLimit: number;
+  maxConcurrentRequests: number;
+  supportsGlossary: boolean;
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Fetches the limits and capabilities advertised by the API server once on mount. Until the response arrives, or
+ * when the server does not expose `/api/config`, the client-side defaults are used.
+ */
+export function useServerConfig(): ResolvedServerConfig {
+  const apiClient = useApiClient();
+  const [config, setConfig] = useState<ResolvedServerConfig>({
+    wordLimit: WORD_LIMIT,
+    maxConcurrentRequests: TRANSLATION_CONCURRENCY,
+    supportsGlossary: false,
+  });
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    apiClient.getServerConfig({ signal: abortController.signal })
+      .then(serverConfig => {
+        setConfig({
+          wordLimit: isPositiveInteger(serverConfig.wordLimit) ? serverConfig.wordLimit : WORD_LIMIT,
+          maxConcurrentRequests: isPositiveInteger(serverConfig.maxConcurrentRequests)
+            ? serverConfig.maxConcurrentRequests
+            : TRANSLATION_CONCURRENCY,
+          supportsGlossary: serverConfig.supportsGlossary === true,
+        });
+      })
+      .catch(error => {
+        if (!abortController.signal.aborted) {
+          console.warn('Could not load server config, using defaults:', error);
+        }
+      });
+    return () => abortController.abort();
+  }, [apiClient]);
+
+  return config;
+}
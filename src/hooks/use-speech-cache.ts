@@ -0,0 +1,48 @@
+import { useCallback, useState } from 'react';
+import type { TextToSpeechOutput } from '@/lib/api';
+import type { SpeechCacheStats } from '@/lib/speech-cache';
+import { cacheSpeech, clearSpeechCache, getCachedSpeech, getSpeechCacheStats } from '@/lib/speech-cache';
+
+/**
+ * Reads and fills the IndexedDB text-to-speech cache, and reports its size once `refreshStats`
+ * has run. A failing cache counts as a miss: it must never stop text from being spoken.
+ */
+export function useSpeechCache() {
+  const [stats, setStats] = useState<SpeechCacheStats | null>(null);
+
+  const refreshStats = useCallback(async () => {
+    try {
+      setStats(await getSpeechCacheStats());
+    } catch (error) {
+      console.error('Failed to read speech cache size:', error);
+    }
+  }, []);
+
+  const getSpeech = useCallback(async (key: string): Promise<TextToSpeechOutput | null> => {
+    try {
+      return await getCachedSpeech(key);
+    } catch (error) {
+      console.error('Failed to read speech cache:', error);
+      return null;
+    }
+  }, []);
+
+  const storeSpeech = useCallback(async (key: string, output: TextToSpeechOutput) => {
+    try {
+      await cacheSpeech(key, output);
+    } catch (error) {
+      console.error('Failed to cache speech:', error);
+    }
+  }, []);
+
+  const purge = useCallback(async () => {
+    try {
+      await clearSpeechCache();
+      setStats({ entries: 0, bytes: 0 });
+    } catch (error) {
+      console.error('Failed to clear speech cache:', error);
+    }
+  }, []);
+
+  return { stats, refreshStats, getSpeech, storeSpeech, purge };
+}
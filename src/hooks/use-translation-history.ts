@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { HistoryEnhancement, HistoryEntry, NewHistoryEntry } from '@/lib/history';
+import {
+  HISTORY_LIMIT,
+  addHistoryEntry,
+  clearHistoryEntries,
+  deleteHistoryEntry,
+  loadHistoryEntries,
+  updateHistoryEntry,
+} from '@/lib/history';
+
+/**
+ * Keeps the IndexedDB translation history mirrored in React state. Storage failures are logged
+ * and otherwise ignored: history is a convenience and must never block translating.
+ */
+export function useTranslationHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadHistoryEntries()
+      .then(loaded => {
+        if (!isCancelled) setEntries(loaded);
+      })
+      .catch(error => console.error('Failed to load translation history:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const recordEntry = useCallback(async (input: NewHistoryEntry): Promise<HistoryEntry | null> => {
+    try {
+      const entry = await addHistoryEntry(input);
+      setEntries(prev => [entry, ...prev].slice(0, HISTORY_LIMIT));
+      return entry;
+    } catch (error) {
+      console.error('Failed to record translation history:', error);
+      return null;
+    }
+  }, []);
+
+  const attachEnhancement = useCallback(async (entry: HistoryEntry, enhancement: HistoryEnhancement) => {
+    const updated = { ...entry, enhancement };
+    setEntries(prev => prev.map(existing => existing.id === entry.id ? updated : existing));
+    try {
+      await updateHistoryEntry(updated);
+    } catch (error) {
+      console.error('Failed to update translation history:', error);
+    }
+    return updated;
+  }, []);
+
+  const removeEntry = useCallback(async (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    try {
+      await deleteHistoryEntry(id);
+    } catch (error) {
+      console.error('Failed to delete translation history entry:', error);
+    }
+  }, []);
+
+  const clearEntries = useCallback(async () => {
+    setEntries([]);
+    try {
+      await clearHistoryEntries();
+    } catch (error) {
+      console.error('Failed to clear translation history:', error);
+    }
+  }, []);
+
+  return { entries, recordEntry, attachEnhancement, removeEntry, clearEntries };
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { LanguageCode } from '@/lib/languages';
+import type { NewTranslationMemoryEntry, TranslationMemoryEntry, TranslationMemoryOrigin } from '@/lib/translation-memory';
+import {
+  DEFAULT_SIMILARITY_THRESHOLD,
+  TRANSLATION_MEMORY_LIMIT,
+  alignSentencePairs,
+  clearTranslationMemory,
+  deleteTranslationMemoryEntry,
+  loadTranslationMemory,
+  saveTranslationMemoryEntries,
+} from '@/lib/translation-memory';
+
+const THRESHOLD_STORAGE_KEY = 'translationMemoryThreshold';
+
+function loadThreshold(): number {
+  const saved = Number(localStorage.getItem(THRESHOLD_STORAGE_KEY));
+  return saved > 0 && saved <= 1 ? saved : DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+/** Puts `saved` first and drops the older copies of the same sentences. */
+function mergeEntries(previous: TranslationMemoryEntry[], saved: TranslationMemoryEntry[]): TranslationMemoryEntry[] {
+  const savedIds = new Set(saved.map(entry => entry.id));
+  return [...saved, ...previous.filter(entry => !savedIds.has(entry.id))].slice(0, TRANSLATION_MEMORY_LIMIT);
+}
+
+/**
+ * Keeps the IndexedDB translation memory mirrored in React state, plus the user's similarity
+ * threshold. Like history, storage failures are logged and never block translating.
+ */
+export function useTranslationMemory() {
+  const [entries, setEntries] = useState<TranslationMemoryEntry[]>([]);
+  const [threshold, setThresholdState] = useState(loadThreshold);
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadTranslationMemory()
+      .then(loaded => {
+        if (!isCancelled) setEntries(loaded);
+      })
+      .catch(error => console.error('Failed to load translation memory:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const setThreshold = useCallback((value: number) => {
+    setThresholdState(value);
+    localStorage.setItem(THRESHOLD_STORAGE_KEY, String(value));
+  }, []);
+
+  const saveEntries = useCallback(async (inputs: NewTranslationMemoryEntry[]): Promise<number> => {
+    if (inputs.length === 0) return 0;
+    try {
+      const saved = await saveTranslationMemoryEntries(inputs);
+      setEntries(prev => mergeEntries(prev, saved));
+      return saved.length;
+    } catch (error) {
+      console.error('Failed to save translation memory:', error);
+      return 0;
+    }
+  }, []);
+
+  /** Stores the sentence pairs of a confirmed translation. */
+  const recordTranslation = useCallback((
+    sourceText: string,
+    targetText: string,
+    sourceLanguage: LanguageCode,
+    targetLanguage: LanguageCode,
+    origin: TranslationMemoryOrigin
+  ) => saveEntries(
+    alignSentencePairs(sourceText, targetText, sourceLanguage, targetLanguage)
+      .map(pair => ({ ...pair, sourceLanguage, targetLanguage, origin }))
+  ), [saveEntries]);
+
+  const removeEntry = useCallback(async (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    try {
+      await deleteTranslationMemoryEntry(id);
+    } catch (error) {
+      console.error('Failed to delete translation memory entry:', error);
+    }
+  }, []);
+
+  const clearEntries = useCallback(async () => {
+    setEntries([]);
+    try {
+      await clearTranslationMemory();
+    } catch (error) {
+      console.error('Failed to clear translation memory:', error);
+    }
+  }, []);
+
+  return { entries, threshold, setThreshold, recordTranslation, importEntries: saveEntries, removeEntry, clearEntries };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { useApiClient } from '@/hooks/use-api-client';
+import type { LanguageCode } from '@/lib/languages';
+import type { VoiceOption, VoiceSource } from '@/lib/voices';
+import { getBrowserVoices, subscribeToBrowserVoices, toBrowserVoiceOption, toServerVoiceOption } from '@/lib/voices';
+
+/**
+ * Lists the voices available for `language`: the server's from `/api/voices`, or the browser's
+ * speech synthesis voices when the server has none or does not expose the endpoint.
+ */
+export function useTtsVoices(language: LanguageCode) {
+  const apiClient = useApiClient();
+  const [serverVoices, setServerVoices] = useState<{ language: LanguageCode; voices: VoiceOption[] } | null>(null);
+  const [browserVoices, setBrowserVoices] = useState<VoiceOption[]>([]);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    apiClient.getVoices({ language }, { signal: abortController.signal })
+      .then(({ voices }) => setServerVoices({ language, voices: voices.map(toServerVoiceOption) }))
+      .catch(error => {
+        if (abortController.signal.aborted) return;
+        console.warn('Could not load server voices, using browser voices:', error);
+        setServerVoices({ language, voices: [] });
+      });
+    return () => abortController.abort();
+  }, [apiClient, language]);
+
+  useEffect(() => {
+    const updateBrowserVoices = () => setBrowserVoices(getBrowserVoices(language).map(toBrowserVoiceOption));
+    updateBrowserVoices();
+    return subscribeToBrowserVoices(updateBrowserVoices);
+  }, [language]);
+
+  const isLoading = serverVoices?.language !== language;
+  const source: VoiceSource = !isLoading && serverVoices.voices.length === 0 ? 'browser' : 'server';
+  const voices = isLoading ? [] : source === 'server' ? serverVoices.voices : browserVoices;
+  return { voices, source, isLoading };
+}
@@ -0,0 +1,270 @@
+/**
+ * @fileOverview client.ts - Typed client for the LinguaCraft backend. Every endpoint goes through
+ * one request helper so status handling and error normalization live in a single place.
+ */
+import { ApiError } from './errors';
+import { readServerSentEvents, readTextChunks } from './sse';
+import { createRateLimiter } from './rate-limiter';
+import type { RateLimiter } from './rate-limiter';
+import type {
+  EnhanceTextInput,
+  EnhanceTextOutput,
+  GetVoicesInput,
+  GetVoicesOutput,
+  GetWordDetailsInput,
+  GetWordDetailsOutput,
+  PhraseAlternativesInput,
+  PhraseAlternativesOutput,
+  RequestOptions,
+  ServerConfig,
+  SpeechToTextInput,
+  SpeechToTextOutput,
+  TextToSpeechInput,
+  TextToSpeechOutput,
+  TranslateTextInput,
+  TranslateTextOutput,
+  TranslateTextStreamOptions,
+} from './types';
+
+export interface ApiClient {
+  /** Base URL of the API server, used in connection error messages. */
+  readonly baseUrl: string;
+  /** Shared by every call made through this client; subscribe to it to show rate-limit waits. */
+  readonly rateLimiter: RateLimiter;
+  translateText(input: TranslateTextInput, options?: RequestOptions): Promise<TranslateTextOutput>;
+  /**
+   * Asks `/api/translate-text` for a streamed response and reports the growing output through
+   * `onPartialText`. Servers that answer with plain JSON are handled transparently, so this
+   * resolves with the full translation either way.
+   */
+  translateTextStream(input: TranslateTextInput, options?: TranslateTextStreamOptions): Promise<TranslateTextOutput>;
+  textToSpeech(input: TextToSpeechInput, options?: RequestOptions): Promise<TextToSpeechOutput>;
+  /** Lists the voices `/api/voices` offers for one language. */
+  getVoices(input: GetVoicesInput, options?: RequestOptions): Promise<GetVoicesOutput>;
+  speechToText(input: SpeechToTextInput, options?: RequestOptions): Promise<SpeechToTextOutput>;
+  getWordDetails(input: GetWordDetailsInput, options?: RequestOptions): Promise<GetWordDetailsOutput>;
+  enhanceText(input: EnhanceTextInput, options?: RequestOptions): Promise<EnhanceTextOutput>;
+  /** Asks `/api/phrase-alternatives` for other ways to render one span of a translation. */
+  getPhraseAlternatives(input: PhraseAlternativesInput, options?: RequestOptions): Promise<PhraseAlternativesOutput>;
+  /** Reads the limits the server advertises at `GET /api/config`. */
+  getServerConfig(options?: RequestOptions): Promise<ServerConfig>;
+}
+
+/**
+ * Creates an ApiClient bound to the given server.
+ * @param baseUrl - Origin of the API server, without a trailing slash.
+ * @param rateLimiter - Limiter all requests go through; clients sharing one share its waits.
+ */
+export function createApiClient(baseUrl: string, rateLimiter: RateLimiter = createRateLimiter()): ApiClient {
+  const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+  const toStringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+  /** Drops malformed `alternatives` from a JSON translation response. */
+  const withAlternatives = (output: TranslateTextOutput): TranslateTextOutput =>
+    output.alternatives === undefined ? output : { ...output, alternatives: toStringList(output.alternatives) };
+  /** Drops malformed entries from a text-to-speech response's `wordTimestamps`. */
+  const withWordTimestamps = (output: TextToSpeechOutput): TextToSpeechOutput =>
+    output.wordTimestamps === undefined ? output : {
+      ...output,
+      wordTimestamps: Array.isArray(output.wordTimestamps)
+        ? output.wordTimestamps.filter(entry =>
+          typeof entry?.word === 'string' && Number.isFinite(entry.start) && Number.isFinite(entry.end) && entry.end >= entry.start)
+        : [],
+    };
+
+  /** Sends a request and returns the raw response once it is known to be 2xx. */
+  const request = async (
+    endpoint: string,
+    label: string,
+    init: RequestInit,
+    { signal }: RequestOptions = {}
+  ): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await rateLimiter.run(() => fetch(`${baseUrl}${endpoint}`, { ...init, signal }), signal);
+    } catch (error) {
+      if (isAbort(error)) {
+        throw new ApiError('aborted', `${label} request was cancelled.`, { endpoint, baseUrl });
+      }
+      throw new ApiError('network', error instanceof Error ? error.message : String(error), { endpoint, baseUrl });
+    }
+
+    if (!response.ok) {
+      const fallbackMessage = `${label} API request failed: ${response.statusText} (${response.status})`;
+      const errorData = await response.json().catch(() => ({ error: fallbackMessage }));
+      throw new ApiError('http', errorData.error || fallbackMessage, { endpoint, baseUrl, status: response.status });
+    }
+    return response;
+  };
+
+  /** Sends a JSON POST and returns the raw response once it is known to be 2xx. */
+  const post = (
+    endpoint: string,
+    label: string,
+    body: unknown,
+    options?: RequestOptions,
+    headers: Record<string, string> = {}
+  ): Promise<Response> => request(endpoint, label, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  }, options);
+
+  const readJson = async <TOutput>(response: Response, endpoint: string, label: string): Promise<TOutput> => {
+    try {
+      return await response.json() as TOutput;
+    } catch (error) {
+      if (isAbort(error)) {
+        throw new ApiError('aborted', `${label} request was cancelled.`, { endpoint, baseUrl });
+      }
+      throw new ApiError('invalid-response', `Received a malformed ${label} response from server.`, { endpoint, baseUrl, status: response.status });
+    }
+  };
+
+  const postJson = async <TOutput>(
+    endpoint: string,
+    label: string,
+    body: unknown,
+    options?: RequestOptions
+  ): Promise<TOutput> => {
+    const response = await post(endpoint, label, body, options);
+    return readJson<TOutput>(response, endpoint, label);
+  };
+
+  /**
+   * Consumes a streamed translation body. SSE events carry `{ "delta": "..." }` fragments, an
+   * optional `{ "translatedText": "..." }` snapshot, an optional `detectedSourceLanguage` and
+   * `alternatives`, `[DONE]` or `event: done` to finish, and `event: error` with `{ "error": "..." }` on failure.
+   * Chunked `text/plain` bodies are raw text.
+   */
+  const readTranslationStream = async (
+    response: Response,
+    endpoint: string,
+    onPartialText?: (text: string) => void
+  ): Promise<TranslateTextOutput> => {
+    const body = response.body;
+    if (!body) {
+      throw new ApiError('invalid-response', 'Translation stream ended without a body.', { endpoint, baseUrl, status: response.status });
+    }
+
+    let translatedText = '';
+    let detectedSourceLanguage: string | undefined;
+    let alternatives: string[] | undefined;
+    const isEventStream = (response.headers.get('Content-Type') ?? '').includes('text/event-stream');
+    try {
+      if (isEventStream) {
+        for await (const { event, data } of readServerSentEvents(body)) {
+          if (event === 'done' || data === '[DONE]') break;
+
+          let payload: {
+            delta?: unknown;
+            translatedText?: unknown;
+            detectedSourceLanguage?: unknown;
+            alternatives?: unknown;
+            error?: unknown;
+          } | null = null;
+          try {
+            const parsed = JSON.parse(data);
+            payload = typeof parsed === 'object' && parsed !== null ? parsed : null;
+          } catch {
+            payload = null;
+          }
+
+          if (event === 'error') {
+            const message = typeof payload?.error === 'string' ? payload.error : data;
+            throw new ApiError('http', message || 'Translation stream failed.', { endpoint, baseUrl, status: response.status });
+          }
+          if (typeof payload?.detectedSourceLanguage === 'string') {
+            detectedSourceLanguage = payload.detectedSourceLanguage;
+          }
+          if (Array.isArray(payload?.alternatives)) {
+            alternatives = toStringList(payload.alternatives);
+          }
+          if (typeof payload?.translatedText === 'string') {
+            translatedText = payload.translatedText;
+          } else if (typeof payload?.delta === 'string') {
+            translatedText += payload.delta;
+          } else if (payload === null) {
+            translatedText += data;
+          } else {
+            continue;
+          }
+          onPartialText?.(translatedText);
+        }
+      } else {
+        for await (const chunk of readTextChunks(body)) {
+          translatedText += chunk;
+          onPartialText?.(translatedText);
+        }
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      if (isAbort(error)) {
+        throw new ApiError('aborted', 'Translation request was cancelled.', { endpoint, baseUrl });
+      }
+      throw new ApiError('network', error instanceof Error ? error.message : String(error), { endpoint, baseUrl });
+    }
+    return { translatedText, detectedSourceLanguage, alternatives };
+  };
+
+  return {
+    baseUrl,
+    rateLimiter,
+
+    translateText: async (input, options) =>
+      withAlternatives(await postJson<TranslateTextOutput>('/api/translate-text', 'Translation', input, options)),
+
+    translateTextStream: async (input, options = {}) => {
+      const endpoint = '/api/translate-text';
+      const response = await post(endpoint, 'Translation', { ...input, stream: true }, options, {
+        Accept: 'text/event-stream, text/plain;q=0.9, application/json;q=0.8',
+      });
+      const contentType = response.headers.get('Content-Type') ?? '';
+      // Servers without streaming support ignore `stream` and reply with the usual JSON body.
+      if (!contentType.includes('text/event-stream') && !contentType.includes('text/plain')) {
+        return withAlternatives(await readJson<TranslateTextOutput>(response, endpoint, 'Translation'));
+      }
+      return readTranslationStream(response, endpoint, options.onPartialText);
+    },
+
+    textToSpeech: async (input, options) => {
+      const endpoint = '/api/text-to-speech';
+      const result = await postJson<TextToSpeechOutput>(endpoint, 'TTS', input, options);
+      if (!result.audioDataUri || !(result.audioDataUri.startsWith('data:audio') || result.audioDataUri.startsWith('blob:'))) {
+        console.error('Received invalid audioDataUri from server:', result.audioDataUri);
+        throw new ApiError('invalid-response', 'Received invalid or missing audio data URI from server.', { endpoint, baseUrl });
+      }
+      return withWordTimestamps(result);
+    },
+
+    speechToText: (input, options) =>
+      postJson<SpeechToTextOutput>('/api/speech-to-text', 'STT', input, options),
+
+    getWordDetails: async (input, options) => {
+      const result = await postJson<GetWordDetailsOutput>('/api/get-word-details', 'Word details', input, options);
+      return { ...result, ipaPronunciation: result.ipaPronunciation ?? '' };
+    },
+
+    enhanceText: (input, options) =>
+      postJson<EnhanceTextOutput>('/api/enhance-text', 'Enhance text', input, options),
+
+    getPhraseAlternatives: async (input, options) => {
+      const result = await postJson<Partial<PhraseAlternativesOutput>>('/api/phrase-alternatives', 'Phrase alternatives', input, options);
+      return { alternatives: toStringList(result.alternatives) };
+    },
+
+    getVoices: async ({ language }, options) => {
+      const endpoint = '/api/voices';
+      const response = await request(`${endpoint}?language=${encodeURIComponent(language)}`, 'Voices', { method: 'GET' }, options);
+      const result = await readJson<GetVoicesOutput>(response, endpoint, 'Voices');
+      const voices = Array.isArray(result.voices) ? result.voices : [];
+      return { voices: voices.filter(voice => typeof voice?.id === 'string' && typeof voice.name === 'string') };
+    },
+
+    getServerConfig: async (options) => {
+      const endpoint = '/api/config';
+      const response = await request(endpoint, 'Config', { method: 'GET' }, options);
+      return readJson<ServerConfig>(response, endpoint, 'Config');
+    },
+  };
+}
@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+import { API_BASE_URL } from '@/lib/constants';
+import { createApiClient } from './client';
+import type { ApiClient } from './client';
+
+/**
+ * Injection point for the API client. The default talks to `API_BASE_URL`; wrap a subtree in
+ * `ApiClientContext.Provider` to swap in a different server or a fake.
+ */
+export const ApiClientContext = createContext<ApiClient>(createApiClient(API_BASE_URL));
@@ -0,0 +1,59 @@
+/**
+ * @fileOverview errors.ts - The single error type thrown by the API client, plus a helper that
+ * turns it into the user-facing toast descriptions used across the app.
+ */
+
+export type ApiErrorKind =
+  /** The request never reached the server (offline, CORS, server down). */
+  | 'network'
+  /** The server answered with a non-2xx status. */
+  | 'http'
+  /** The server answered 2xx but the payload was not what we expected. */
+  | 'invalid-response'
+  /** The caller aborted the request through its AbortSignal. */
+  | 'aborted';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly endpoint: string;
+  readonly baseUrl: string;
+  readonly status?: number;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    details: { endpoint: string; baseUrl: string; status?: number }
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.endpoint = details.endpoint;
+    this.baseUrl = details.baseUrl;
+    this.status = details.status;
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof ApiError && error.kind === 'aborted';
+}
+
+/**
+ * Builds the toast description for a failed API call.
+ * @param error - Whatever the client call rejected with.
+ * @param service - Human name of the backing service, e.g. "translation service".
+ * @param prefix - Lead-in for server-reported errors, e.g. "Translation error".
+ */
+export function describeApiError(error: unknown, service: string, prefix: string): string {
+  if (error instanceof ApiError) {
+    if (error.kind === 'network') {
+      return `Failed to connect to the ${service}. Ensure the API server at ${error.baseUrl} is running, accessible, and CORS is configured.`;
+    }
+    if (error.kind === 'invalid-response') {
+      return error.message;
+    }
+  }
+  if (error instanceof Error) {
+    return `${prefix}: ${error.message}. Check console and API server logs.`;
+  }
+  return `An unexpected error occurred in the ${service}.`;
+}
@@ -0,0 +1,8 @@
+export { createApiClient } from './client';
+export type { ApiClient } from './client';
+export { ApiClientContext } from './context';
+export { createRateLimiter } from './rate-limiter';
+export type { RateLimiter, RateLimitState } from './rate-limiter';
+export { ApiError, describeApiError, isAbortError } from './errors';
+export type { ApiErrorKind } from './errors';
+export type * from './types';
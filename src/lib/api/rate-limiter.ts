@@ -0,0 +1,147 @@
+/**
+ * @fileOverview rate-limiter.ts - Client-side rate limiting shared by every API call. It follows
+ * the server's `Retry-After` and `X-RateLimit-*` hints, holds requests in a queue while the server
+ * asks us to wait instead of failing them, and retries 429/503 responses with exponential backoff.
+ */
+
+export interface RateLimitState {
+  /** When held requests may be sent again; null while requests go straight through. */
+  blockedUntil: number | null;
+  /** Requests waiting for the block to lift. */
+  queuedRequests: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Sends a request once the limiter allows it, retrying 429 and 503 responses until they stop
+   * or the retries run out, when the last response is returned as-is. Rejects with an
+   * AbortError if `signal` fires while the request is held.
+   */
+  run(send: () => Promise<Response>, signal?: AbortSignal): Promise<Response>;
+  getState(): RateLimitState;
+  /** Registers a listener for state changes and returns its unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+}
+
+/** Statuses that mean "try again later" rather than "this request is wrong". */
+const RETRYABLE_STATUSES = new Set([429, 503]);
+const DEFAULT_MAX_RETRIES = 4;
+const BACKOFF_BASE_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+/** `X-RateLimit-Reset` values above this are epoch seconds; smaller ones are seconds from now. */
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/** Reads `Retry-After` (delay in seconds or an HTTP date) as milliseconds from `now`. */
+export function parseRetryAfter(value: string | null, now: number): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Reads `X-RateLimit-Reset` (epoch seconds or seconds from now) as an absolute time. */
+export function parseRateLimitReset(value: string | null, now: number): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds)) return null;
+  return seconds > EPOCH_SECONDS_THRESHOLD ? seconds * 1000 : now + seconds * 1000;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Rate-limited request was cancelled.', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function createRateLimiter({
+  maxRetries = DEFAULT_MAX_RETRIES,
+  now = Date.now,
+}: { maxRetries?: number; now?: () => number } = {}): RateLimiter {
+  let blockedUntil = 0;
+  /** Requests the server says are left in the current window, once it has told us. */
+  let remaining: number | null = null;
+  let resetAt: number | null = null;
+  let queuedRequests = 0;
+  let state: RateLimitState = { blockedUntil: null, queuedRequests: 0 };
+  let unblockTimeoutId: ReturnType<typeof setTimeout> | undefined;
+  const listeners = new Set<() => void>();
+
+  const publish = () => {
+    const next = { blockedUntil: blockedUntil > now() ? blockedUntil : null, queuedRequests };
+    if (next.blockedUntil === state.blockedUntil && next.queuedRequests === state.queuedRequests) return;
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const blockUntil = (time: number) => {
+    if (time <= blockedUntil) return;
+    blockedUntil = time;
+    clearTimeout(unblockTimeoutId);
+    unblockTimeoutId = setTimeout(publish, time - now());
+    publish();
+  };
+
+  /** Resolves once a request may be sent, holding it in the queue while blocked. */
+  const acquire = async (signal?: AbortSignal) => {
+    for (;;) {
+      if (resetAt !== null && resetAt <= now()) {
+        remaining = null;
+        resetAt = null;
+      }
+      if (remaining !== null && remaining <= 0 && resetAt !== null) blockUntil(resetAt);
+      if (blockedUntil <= now()) {
+        if (remaining !== null) remaining--;
+        return;
+      }
+      queuedRequests++;
+      publish();
+      try {
+        await wait(blockedUntil - now(), signal);
+      } finally {
+        queuedRequests--;
+        publish();
+      }
+    }
+  };
+
+  const readHints = (response: Response) => {
+    const remainingHeader = Number(response.headers.get('X-RateLimit-Remaining') ?? NaN);
+    const reset = parseRateLimitReset(response.headers.get('X-RateLimit-Reset'), now());
+    if (Number.isFinite(remainingHeader)) remaining = remainingHeader;
+    if (reset !== null) resetAt = reset;
+  };
+
+  return {
+    run: async (send, signal) => {
+      for (let attempt = 0; ; attempt++) {
+        await acquire(signal);
+        const response = await send();
+        readHints(response);
+        if (!RETRYABLE_STATUSES.has(response.status) || attempt >= maxRetries) return response;
+
+        // The server is overloaded or limiting us, so every request waits, not just this one.
+        const backoff = Math.min(MAX_BACKOFF_MS, BACKOFF_BASE_MS * 2 ** attempt) * (0.8 + Math.random() * 0.4);
+        blockUntil(now() + (parseRetryAfter(response.headers.get('Retry-After'), now()) ?? backoff));
+        response.body?.cancel().catch(() => {});
+      }
+    },
+    getState: () => state,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
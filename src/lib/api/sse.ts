@@ -0,0 +1,85 @@
+/**
+ * @fileOverview sse.ts - Minimal Server-Sent Events reader for fetch `ReadableStream` bodies.
+ * EventSource only supports GET, so streaming POST endpoints are parsed by hand here.
+ */
+
+export interface ServerSentEvent {
+  /** Value of the `event:` field, `message` when absent. */
+  event: string;
+  /** All `data:` lines of the event joined with newlines. */
+  data: string;
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+  for (const line of block.split(/\r\n|\r|\n/)) {
+    if (!line || line.startsWith(':')) continue; // Blank or comment line
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    let value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    if (field === 'event') event = value;
+    else if (field === 'data') dataLines.push(value);
+  }
+  return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+}
+
+/**
+ * Yields each complete event from an SSE response body as it arrives.
+ * @param body - The `response.body` of a `text/event-stream` response.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let isFinished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const event = parseEventBlock(block);
+        if (event) yield event;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+    buffer += decoder.decode();
+    isFinished = true;
+    const trailingEvent = parseEventBlock(buffer);
+    if (trailingEvent) yield trailingEvent;
+  } finally {
+    // A consumer that stops early (e.g. on `[DONE]`) must cancel the body, or the connection stays open.
+    if (!isFinished) reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yields decoded text chunks from a plain chunked response body.
+ * @param body - The `response.body` of a streamed `text/plain` response.
+ */
+export async function* readTextChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let isFinished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+      if (chunk) yield chunk;
+    }
+    isFinished = true;
+    const tail = decoder.decode();
+    if (tail) yield tail;
+  } finally {
+    if (!isFinished) reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * @fileOverview types.ts - Request and response shapes shared by the API client and the
+ * components that consume it.
+ */
+import type { LanguageCode, SourceLanguageCode } from '@/lib/languages';
+
+/** A term the server must translate a fixed way; `target` equals `source` for protected terms. */
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+export type TranslationFormality = 'formal' | 'informal';
+export type TranslationDomain = 'legal' | 'medical' | 'software-ui' | 'marketing';
+/** Pronoun pairs (speaker / listener) a Vietnamese translation should use. */
+export type VietnamesePronounPreference = 'toi-ban' | 'em-anh-chi' | 'minh-cau' | 'chung-toi-quy-khach';
+
+export interface TranslateTextInput {
+  text: string;
+  /** `auto` when the client could not tell; the server detects the language then. */
+  sourceLanguage: SourceLanguageCode;
+  targetLanguage: LanguageCode;
+  /** Sent only to servers that advertise `supportsGlossary`. */
+  glossary?: GlossaryTerm[];
+  /** How many alternative translations to return besides `translatedText`. */
+  alternatives?: number;
+  /** Register to translate into; omitted to let the model choose. */
+  formality?: TranslationFormality;
+  /** Subject area whose terminology and conventions the translation should follow. */
+  domain?: TranslationDomain;
+  /** How speakers address each other in Vietnamese output; only sent when translating into Vietnamese. */
+  pronounPreference?: VietnamesePronounPreference;
+}
+
+export interface TranslateTextOutput {
+  translatedText: string;
+  /** Source language the server detected, when it does detection itself. */
+  detectedSourceLanguage?: string;
+  /** Other renderings of the whole text, when `alternatives` was requested. */
+  alternatives?: string[];
+}
+
+export interface PhraseAlternativesInput {
+  /** The span of the translation to reword. */
+  phrase: string;
+  /** The full translation the phrase was selected from, for context. */
+  translatedText: string;
+  sourceText: string;
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+  /** How many alternatives to return. */
+  count: number;
+}
+
+export interface PhraseAlternativesOutput {
+  alternatives: string[];
+}
+
+export interface TextToSpeechInput {
+  text: string;
+  language: LanguageCode;
+  /** Id of a voice from `/api/voices`; the server default when omitted. */
+  voice?: string;
+  /** Speed relative to the voice's normal rate, e.g. 1.25. */
+  speakingRate?: number;
+  /** Pitch relative to the voice's normal pitch, e.g. 0.9. */
+  pitch?: number;
+}
+
+export interface TtsVoice {
+  id: string;
+  /** Display name, e.g. "Aoede" or "en-US-Standard-C". */
+  name: string;
+  gender?: string;
+}
+
+export interface GetVoicesInput {
+  language: LanguageCode;
+}
+
+export interface GetVoicesOutput {
+  voices: TtsVoice[];
+}
+
+/** When one word of the synthesized speech is heard, in seconds from the start of the audio. */
+export interface SpeechWordTimestamp {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface TextToSpeechOutput {
+  audioDataUri: string;
+  /** Per-word timing, for servers and voices that report it. */
+  wordTimestamps?: SpeechWordTimestamp[];
+}
+
+export interface SpeechToTextInput {
+  audioDataUri: string;
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+}
+
+export interface SpeechToTextOutput {
+  transcription: string;
+}
+
+export interface GetWordDetailsInput {
+  word: string;
+  language: LanguageCode;
+}
+
+export interface GetWordDetailsOutput {
+  definedWord: string;
+  type: string;
+  meaning: string;
+  synonyms: string[];
+  antonyms: string[];
+  ipaPronunciation?: string;
+}
+
+export interface EnhanceTextInput {
+  text: string;
+  language: LanguageCode;
+  instruction: string;
+}
+
+export interface EnhanceTextOutput {
+  enhancedText: string;
+}
+
+/** Limits advertised by the server. Every field is optional so older servers keep working. */
+export interface ServerConfig {
+  /** Maximum number of words accepted by one translation request. */
+  wordLimit?: number;
+  /** How many translation requests a client may have in flight at once. */
+  maxConcurrentRequests?: number;
+  /** True when `/api/translate-text` enforces a `glossary` sent with the request. */
+  supportsGlossary?: boolean;
+}
+
+/** Per-call options accepted by every client method. */
+export interface RequestOptions {
+  /** Aborts the underlying fetch when signalled. */
+  signal?: AbortSignal;
+}
+
+export interface TranslateTextStreamOptions extends RequestOptions {
+  /** Called with the accumulated translation each time a streamed fragment arrives. */
+  onPartialText?: (text: string) => void;
+}
@@ -0,0 +1,9 @@
+import { createContext } from 'react';
+import { createAudioPlayer } from './player';
+import type { AudioPlayer } from './player';
+
+/**
+ * Injection point for the audio player. Everything under one provider shares a player, so
+ * starting a clip anywhere stops the one playing elsewhere.
+ */
+export const AudioPlayerContext = createContext<AudioPlayer>(createAudioPlayer());
@@ -0,0 +1,10 @@
+export { AudioPlayerContext } from './context';
+export { createAudioPlayer, MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE, PLAYBACK_RATES } from './player';
+export type { AudioPlaybackState, AudioPlaybackStatus, AudioPlayer } from './player';
+export { DEFAULT_L16_SAMPLE_RATE, isL16DataUri, parseL16DataUri, pcm16ToFloat32 } from './pcm';
+export type { L16Audio } from './pcm';
+export { encodeWav } from './wav';
+export { createSpeechFile, getSpeechFileName } from './speech-file';
+export type { SpeechClip } from './speech-file';
+export { alignWordTimestamps, estimateWordTimings, findSpokenWord, getSpokenWordTimings } from './word-timing';
+export type { SpokenWordTiming } from './word-timing';
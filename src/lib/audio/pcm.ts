@@ -0,0 +1,45 @@
+/**
+ * @fileOverview pcm.ts - Helpers for the raw `audio/L16` data URIs some TTS voices return:
+ * 16-bit little-endian mono PCM with the sample rate given as a `rate=` parameter.
+ */
+
+/** Sample rate assumed when an L16 data URI does not state one. */
+export const DEFAULT_L16_SAMPLE_RATE = 24000;
+
+export interface L16Audio {
+  /** Raw little-endian 16-bit samples. */
+  bytes: Uint8Array;
+  sampleRate: number;
+}
+
+export function isL16DataUri(audioSrc: string): boolean {
+  return audioSrc.startsWith('data:audio/L16');
+}
+
+/** Decodes an `audio/L16` data URI, throwing if it has no base64 payload or an odd byte count. */
+export function parseL16DataUri(dataUri: string): L16Audio {
+  const parts = dataUri.split(';');
+  const base64Part = parts.find(part => part.startsWith('base64,'));
+  if (!base64Part) throw new Error('Invalid L16 audio data format.');
+
+  const rate = parseInt(parts.find(part => part.startsWith('rate='))?.split('=')[1] ?? '', 10);
+  const binaryString = atob(base64Part.substring('base64,'.length));
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  // L16 means 16-bit linear PCM, 2 bytes per sample
+  if (bytes.length % 2 !== 0) throw new Error('Malformed L16 audio data (odd length).');
+
+  return { bytes, sampleRate: isNaN(rate) ? DEFAULT_L16_SAMPLE_RATE : rate };
+}
+
+/** Converts little-endian signed 16-bit samples to floats in [-1, 1] for Web Audio. */
+export function pcm16ToFloat32(bytes: Uint8Array): Float32Array<ArrayBuffer> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Float32Array(bytes.byteLength / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 32768;
+  }
+  return samples;
+}
@@ -0,0 +1,318 @@
+/**
+ * @fileOverview player.ts - The audio player shared by every speak button. It plays
+ * `<audio>`-element sources (MP3/WAV data URIs, blob URLs), raw L16 PCM decoded into an
+ * `AudioBuffer` and browser speech synthesis behind one set of controls: play/pause, seek,
+ * playback rate and stop. Only one clip plays at a time; starting another stops the current one.
+ */
+
+import { isL16DataUri, parseL16DataUri, pcm16ToFloat32 } from './pcm';
+
+export type AudioPlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface AudioPlaybackState {
+  /** Who started the current clip (e.g. a panel id); null when nothing is loaded. */
+  ownerId: string | null;
+  status: AudioPlaybackStatus;
+  /** Position and length in seconds; duration is 0 until it is known. */
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+}
+
+export interface AudioPlayer {
+  /**
+   * Stops whatever is playing and plays `audioSrc` on behalf of `ownerId`. Resolves once playback
+   * has started, or quietly if another clip or `stop()` replaces it first; rejects with an Error
+   * whose message says why the audio could not be played.
+   */
+  load(audioSrc: string, ownerId: string): Promise<void>;
+  /**
+   * Like `load`, but speaks `utterance` with the browser's speech synthesis. Its length is not
+   * known in advance, so it cannot be seeked and the playback rate only applies when it starts.
+   */
+  speak(utterance: SpeechSynthesisUtterance, ownerId: string): Promise<void>;
+  play(): Promise<void>;
+  pause(): void;
+  seek(seconds: number): void;
+  /** Sets the speed, clamped to `MIN_PLAYBACK_RATE`–`MAX_PLAYBACK_RATE`; it carries over to later clips. */
+  setPlaybackRate(rate: number): void;
+  stop(): void;
+  getState(): AudioPlaybackState;
+  /** Registers a listener for state changes and returns its unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+}
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+/** Speeds offered by the playback controls. */
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2] as const;
+/** How often the position is published while playing; often enough to follow single words. */
+const POSITION_TICK_MS = 100;
+
+/** One loaded clip; the player drives it without caring how it produces sound. */
+interface PlaybackSource {
+  duration(): number;
+  currentTime(): number;
+  play(): Promise<void>;
+  pause(): void;
+  seek(seconds: number): void;
+  setPlaybackRate(rate: number): void;
+  dispose(): void;
+}
+
+function describeMediaError(error: MediaError | null): string {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_ABORTED: return 'Audio playback aborted by the user.';
+    case MediaError.MEDIA_ERR_NETWORK: return 'A network error caused audio download to fail.';
+    case MediaError.MEDIA_ERR_DECODE: return 'Audio playback aborted due to a decoding problem.';
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED: return 'The audio format is not supported.';
+    default: return 'Could not play audio. Ensure the API serves valid audio.';
+  }
+}
+
+function createElementSource(element: HTMLAudioElement, audioSrc: string, onEnded: () => void): PlaybackSource {
+  element.src = audioSrc;
+  element.onended = onEnded;
+
+  return {
+    duration: () => (Number.isFinite(element.duration) ? element.duration : 0),
+    currentTime: () => element.currentTime,
+    play: () => element.play().catch((error: unknown) => {
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      throw new Error(describeMediaError(element.error));
+    }),
+    pause: () => element.pause(),
+    seek: seconds => { element.currentTime = seconds; },
+    setPlaybackRate: rate => { element.playbackRate = rate; },
+    dispose: () => {
+      element.onended = null;
+      element.pause();
+      element.removeAttribute('src');
+      element.load();
+    },
+  };
+}
+
+/**
+ * Plays an AudioBuffer. A buffer source node can only be started once, so pausing and seeking
+ * stop the node and remember the offset, and playing starts a fresh node from there.
+ */
+function createBufferSource(context: AudioContext, buffer: AudioBuffer, initialRate: number, onEnded: () => void): PlaybackSource {
+  let node: AudioBufferSourceNode | null = null;
+  let rate = initialRate;
+  /** Position in the buffer when `node` started or when playback last stopped. */
+  let offset = 0;
+  let startedAt = 0;
+
+  const currentTime = () => (node ? Math.min(buffer.duration, offset + (context.currentTime - startedAt) * rate) : offset);
+
+  const stopNode = () => {
+    if (!node) return;
+    const stoppedNode = node;
+    node = null;
+    stoppedNode.onended = null;
+    stoppedNode.stop();
+    stoppedNode.disconnect();
+  };
+
+  const play = async () => {
+    if (node) return;
+    if (context.state === 'suspended') await context.resume();
+    if (offset >= buffer.duration) offset = 0;
+    const startedNode = context.createBufferSource();
+    startedNode.buffer = buffer;
+    startedNode.playbackRate.value = rate;
+    startedNode.connect(context.destination);
+    startedNode.onended = () => {
+      if (node !== startedNode) return;
+      node = null;
+      offset = buffer.duration;
+      onEnded();
+    };
+    startedNode.start(0, offset);
+    startedAt = context.currentTime;
+    node = startedNode;
+  };
+
+  return {
+    duration: () => buffer.duration,
+    currentTime,
+    play,
+    pause: () => {
+      offset = currentTime();
+      stopNode();
+    },
+    seek: seconds => {
+      const wasPlaying = !!node;
+      stopNode();
+      offset = Math.max(0, Math.min(buffer.duration, seconds));
+      if (wasPlaying) play().catch(() => {});
+    },
+    setPlaybackRate: nextRate => {
+      if (node) {
+        offset = currentTime();
+        startedAt = context.currentTime;
+        node.playbackRate.value = nextRate;
+      }
+      rate = nextRate;
+    },
+    dispose: stopNode,
+  };
+}
+
+function createUtteranceSource(utterance: SpeechSynthesisUtterance, playbackRate: number, onEnded: () => void): PlaybackSource {
+  let hasStarted = false;
+  utterance.onend = onEnded;
+  utterance.onerror = onEnded;
+
+  return {
+    duration: () => 0,
+    currentTime: () => 0,
+    play: async () => {
+      if (hasStarted) {
+        window.speechSynthesis.resume();
+        return;
+      }
+      hasStarted = true;
+      utterance.rate *= playbackRate;
+      window.speechSynthesis.cancel();
+      window.speechSynthesis.speak(utterance);
+    },
+    pause: () => window.speechSynthesis.pause(),
+    seek: () => {},
+    setPlaybackRate: () => {},
+    dispose: () => {
+      utterance.onend = null;
+      utterance.onerror = null;
+      if (hasStarted) window.speechSynthesis.cancel();
+    },
+  };
+}
+
+function getAudioContextClass(): typeof AudioContext | undefined {
+  return window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+}
+
+/** Creates the player. The `<audio>` element and AudioContext are made on first use, so this is safe to call at import time. */
+export function createAudioPlayer(): AudioPlayer {
+  let element: HTMLAudioElement | null = null;
+  let audioContext: AudioContext | null = null;
+  let source: PlaybackSource | null = null;
+  let ownerId: string | null = null;
+  let status: AudioPlaybackStatus = 'idle';
+  let playbackRate = 1;
+  /** Bumped whenever the current clip is replaced, so a superseded load can tell. */
+  let loadId = 0;
+  let tickIntervalId: ReturnType<typeof setInterval> | undefined;
+  let state: AudioPlaybackState = { ownerId: null, status: 'idle', currentTime: 0, duration: 0, playbackRate };
+  const listeners = new Set<() => void>();
+
+  const publish = () => {
+    const next: AudioPlaybackState = {
+      ownerId,
+      status,
+      currentTime: source?.currentTime() ?? 0,
+      duration: source?.duration() ?? 0,
+      playbackRate,
+    };
+    if ((Object.keys(next) as (keyof AudioPlaybackState)[]).every(key => next[key] === state[key])) return;
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const setStatus = (nextStatus: AudioPlaybackStatus) => {
+    status = nextStatus;
+    clearInterval(tickIntervalId);
+    if (status === 'playing') tickIntervalId = setInterval(publish, POSITION_TICK_MS);
+    publish();
+  };
+
+  const stop = () => {
+    loadId++;
+    source?.dispose();
+    source = null;
+    ownerId = null;
+    setStatus('idle');
+  };
+
+  const createSource = async (audioSrc: string): Promise<PlaybackSource> => {
+    if (!isL16DataUri(audioSrc)) {
+      element ??= new Audio();
+      const playbackSource = createElementSource(element, audioSrc, stop);
+      playbackSource.setPlaybackRate(playbackRate);
+      return playbackSource;
+    }
+
+    const { bytes, sampleRate } = parseL16DataUri(audioSrc);
+    const AudioContextClass = getAudioContextClass();
+    if (!AudioContextClass) throw new Error('Web Audio API not supported by this browser.');
+    audioContext ??= new AudioContextClass();
+    const samples = pcm16ToFloat32(bytes);
+    const buffer = audioContext.createBuffer(1, samples.length, sampleRate); // 1 channel (mono)
+    buffer.copyToChannel(samples, 0);
+    return createBufferSource(audioContext, buffer, playbackRate, stop);
+  };
+
+  const play = async () => {
+    if (!source || status === 'playing') return;
+    const playId = loadId;
+    try {
+      await source.play();
+    } catch (error) {
+      // A newer clip or stop() interrupted this one; that is not a failure.
+      if (playId !== loadId) return;
+      stop();
+      throw error;
+    }
+    if (playId === loadId) setStatus('playing');
+  };
+
+  /** Replaces the current clip with the one `prepareSource` makes and starts playing it. */
+  const start = async (nextOwnerId: string, prepareSource: () => Promise<PlaybackSource>) => {
+    stop();
+    const currentLoadId = loadId;
+    ownerId = nextOwnerId;
+    setStatus('loading');
+    let nextSource: PlaybackSource;
+    try {
+      nextSource = await prepareSource();
+    } catch (error) {
+      if (currentLoadId === loadId) stop();
+      throw error;
+    }
+    if (currentLoadId !== loadId) {
+      nextSource.dispose();
+      return;
+    }
+    source = nextSource;
+    await play();
+  };
+
+  return {
+    load: (audioSrc, nextOwnerId) => start(nextOwnerId, () => createSource(audioSrc)),
+    speak: (utterance, nextOwnerId) =>
+      start(nextOwnerId, async () => createUtteranceSource(utterance, playbackRate, stop)),
+    play,
+    pause: () => {
+      if (!source || status !== 'playing') return;
+      source.pause();
+      setStatus('paused');
+    },
+    seek: seconds => {
+      if (!source) return;
+      source.seek(Math.max(0, Math.min(source.duration(), seconds)));
+      publish();
+    },
+    setPlaybackRate: rate => {
+      playbackRate = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+      source?.setPlaybackRate(playbackRate);
+      publish();
+    },
+    stop,
+    getState: () => state,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
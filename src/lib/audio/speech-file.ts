@@ -0,0 +1,56 @@
+/**
+ * @fileOverview speech-file.ts - Turns a text-to-speech result into a file to save: raw L16 PCM
+ * becomes a WAV file, other audio is saved in the format the server sent.
+ */
+
+import type { SpeechWordTimestamp } from '@/lib/api';
+import type { LanguageCode } from '@/lib/languages';
+import { isL16DataUri, parseL16DataUri } from './pcm';
+import { encodeWav } from './wav';
+
+/** A text-to-speech result, kept with the text and language it was made from. */
+export interface SpeechClip {
+  audioDataUri: string;
+  text: string;
+  language: LanguageCode;
+  wordTimestamps?: SpeechWordTimestamp[];
+}
+
+/** Words of the text used in the file name. */
+const FILE_NAME_WORDS = 6;
+const MAX_FILE_NAME_STEM_LENGTH = 60;
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+};
+
+/** Names the file after the first few words of `text` and its language, e.g. `good-morning-everyone.en.mp3`. */
+export function getSpeechFileName(text: string, language: LanguageCode, extension: string): string {
+  const stem = (text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [])
+    .slice(0, FILE_NAME_WORDS)
+    .join('-')
+    .slice(0, MAX_FILE_NAME_STEM_LENGTH)
+    .replace(/-+$/, '');
+  return `${stem || 'speech'}.${language}.${extension}`;
+}
+
+/** Builds the file for `clip`; L16 PCM is wrapped in a WAV header at its own sample rate. */
+export async function createSpeechFile(clip: SpeechClip): Promise<{ blob: Blob; fileName: string }> {
+  if (isL16DataUri(clip.audioDataUri)) {
+    const { bytes, sampleRate } = parseL16DataUri(clip.audioDataUri);
+    return { blob: encodeWav(bytes, sampleRate), fileName: getSpeechFileName(clip.text, clip.language, 'wav') };
+  }
+
+  const blob = await (await fetch(clip.audioDataUri)).blob();
+  const mimeType = blob.type.split(';')[0].trim().toLowerCase();
+  const extension = EXTENSIONS_BY_MIME_TYPE[mimeType] ?? mimeType.split('/')[1] ?? 'audio';
+  return { blob, fileName: getSpeechFileName(clip.text, clip.language, extension) };
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileOverview wav.ts - Wraps raw 16-bit PCM in a RIFF/WAVE container so it can be saved and
+ * opened by any audio player.
+ */
+
+const WAV_HEADER_BYTES = 44;
+const BITS_PER_SAMPLE = 16;
+
+/** Builds a WAV file from little-endian 16-bit PCM samples. */
+export function encodeWav(pcm: Uint8Array, sampleRate: number, channels = 1): Blob {
+  const blockAlign = channels * (BITS_PER_SAMPLE / 8);
+  const header = new DataView(new ArrayBuffer(WAV_HEADER_BYTES));
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) header.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  header.setUint32(4, WAV_HEADER_BYTES - 8 + pcm.byteLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, channels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * blockAlign, true); // byte rate
+  header.setUint16(32, blockAlign, true);
+  header.setUint16(34, BITS_PER_SAMPLE, true);
+  writeTag(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+
+  return new Blob([header.buffer, pcm as Uint8Array<ArrayBuffer>], { type: 'audio/wav' });
+}
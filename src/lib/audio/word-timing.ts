@@ -0,0 +1,92 @@
+/**
+ * @fileOverview word-timing.ts - Works out which word of a text is being spoken at a given moment
+ * of its text-to-speech audio. Server word timestamps are used when present; otherwise each word
+ * gets a share of the audio's duration proportional to its length.
+ */
+
+import type { SpeechWordTimestamp } from '@/lib/api';
+
+/** One word of the text, by character offsets, and when it is heard, in seconds. */
+export interface SpokenWordTiming {
+  charStart: number;
+  charEnd: number;
+  start: number;
+  end: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu;
+/** Words ahead of the last matched one searched for a timestamp's word before it is skipped. */
+const TIMESTAMP_LOOKAHEAD_WORDS = 5;
+
+function findWords(text: string): { word: string; start: number; end: number }[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    word: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function normalizeWord(word: string): string {
+  return word.toLocaleLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+}
+
+/** Spreads `duration` over the words of `text` by length, counting one character of pause between words. */
+export function estimateWordTimings(text: string, duration: number): SpokenWordTiming[] {
+  const words = findWords(text);
+  const totalWeight = words.reduce((sum, { word }) => sum + word.length + 1, 0);
+  if (totalWeight === 0 || duration <= 0) return [];
+
+  let elapsed = 0;
+  return words.map(({ word, start, end }) => {
+    const wordStart = elapsed;
+    elapsed += (duration * (word.length + 1)) / totalWeight;
+    return { charStart: start, charEnd: end, start: wordStart, end: elapsed };
+  });
+}
+
+/**
+ * Matches server timestamps to the words of `text` in order. A timestamp whose word is not found
+ * a few words ahead is skipped, so a stray entry does not throw off the rest.
+ */
+export function alignWordTimestamps(text: string, timestamps: readonly SpeechWordTimestamp[]): SpokenWordTiming[] {
+  const words = findWords(text);
+  const timings: SpokenWordTiming[] = [];
+  let nextWordIndex = 0;
+
+  for (const timestamp of timestamps) {
+    const wanted = normalizeWord(timestamp.word);
+    if (!wanted) continue;
+    const lastCandidate = Math.min(words.length, nextWordIndex + TIMESTAMP_LOOKAHEAD_WORDS);
+    for (let index = nextWordIndex; index < lastCandidate; index++) {
+      if (normalizeWord(words[index].word) !== wanted) continue;
+      timings.push({ charStart: words[index].start, charEnd: words[index].end, start: timestamp.start, end: timestamp.end });
+      nextWordIndex = index + 1;
+      break;
+    }
+  }
+  return timings;
+}
+
+/** Timings for `text`: aligned server timestamps when any match, else an estimate from `duration`. */
+export function getSpokenWordTimings(
+  text: string,
+  duration: number,
+  timestamps?: readonly SpeechWordTimestamp[]
+): SpokenWordTiming[] {
+  const aligned = timestamps?.length ? alignWordTimestamps(text, timestamps) : [];
+  return aligned.length > 0 ? aligned : estimateWordTimings(text, duration);
+}
+
+/** The word heard at `time`, or null between words and outside the audio. `timings` must be in order. */
+export function findSpokenWord(timings: readonly SpokenWordTiming[], time: number): SpokenWordTiming | null {
+  let low = 0;
+  let high = timings.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const timing = timings[middle];
+    if (time < timing.start) high = middle - 1;
+    else if (time >= timing.end) low = middle + 1;
+    else return timing;
+  }
+  return null;
+}
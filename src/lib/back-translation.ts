@@ -0,0 +1,50 @@
+/**
+ * @fileOverview back-translation.ts - Compares a source text with the back-translation of its
+ * translation, sentence by sentence, to flag segments whose meaning may have drifted.
+ */
+import type { LanguageCode } from '@/lib/languages';
+import { alignSentences } from '@/lib/sentence-alignment';
+import type { TextDiffPart } from '@/lib/text-diff';
+import { diffWords, wordSimilarity } from '@/lib/text-diff';
+
+/** Segments scoring below this word overlap are highlighted as diverging. */
+export const DIVERGENCE_THRESHOLD = 0.6;
+
+export interface BackTranslationSegment {
+  original: string;
+  backTranslated: string;
+  /** Word overlap between the two, from 0 to 1. */
+  similarity: number;
+  isDivergent: boolean;
+  /** How the back-translation differs from the original, word by word. */
+  diff: TextDiffPart[];
+}
+
+export interface BackTranslationComparison {
+  segments: BackTranslationSegment[];
+  /** Segment similarities averaged by the length of the original segments, from 0 to 1. */
+  score: number;
+}
+
+export function compareBackTranslation(
+  original: string,
+  backTranslated: string,
+  language: LanguageCode
+): BackTranslationComparison {
+  const segments = alignSentences(original, backTranslated, language, language).map(segment => {
+    const similarity = wordSimilarity(segment.sourceText, segment.targetText);
+    return {
+      original: segment.sourceText,
+      backTranslated: segment.targetText,
+      similarity,
+      isDivergent: similarity < DIVERGENCE_THRESHOLD,
+      diff: diffWords(segment.sourceText, segment.targetText),
+    };
+  });
+
+  const totalLength = segments.reduce((total, segment) => total + segment.original.length, 0);
+  const score = totalLength === 0
+    ? 0
+    : segments.reduce((total, segment) => total + segment.similarity * segment.original.length, 0) / totalLength;
+  return { segments, score };
+}
@@ -0,0 +1,137 @@
+/**
+ * @fileOverview chunked-translation.ts - Translates text that is longer than the server's word
+ * limit. The text is split at sentence boundaries into chunks under the limit, the chunks are
+ * translated with bounded concurrency and individual retries, and the results are stitched back
+ * together with the original spacing between chunks.
+ */
+import { ApiError, isAbortError } from '@/lib/api';
+import { splitByWordLimit } from '@/lib/text-segmentation';
+
+export type TranslationChunkStatus = 'pending' | 'translating' | 'retrying' | 'done' | 'failed';
+
+export interface TranslationChunk {
+  index: number;
+  /** Chunk text without its surrounding whitespace; this is what gets sent to the server. */
+  text: string;
+  /** Whitespace around the chunk in the source, restored when stitching. */
+  leading: string;
+  trailing: string;
+  status: TranslationChunkStatus;
+  /** Requests made for this chunk so far, including the one in flight. */
+  attempts: number;
+  translatedText?: string;
+  error?: string;
+}
+
+export interface TranslateChunksOptions {
+  /** Translates one chunk. Must reject with an aborted ApiError (or AbortError) when `signal` fires. */
+  translate: (text: string, signal: AbortSignal) => Promise<string>;
+  /** Maximum number of chunk requests in flight at once. */
+  concurrency: number;
+  /** Attempts per chunk before it is marked failed. */
+  maxAttempts?: number;
+  /** Called with a fresh copy of every chunk whose status changes. */
+  onChunkChange?: (chunk: TranslationChunk) => void;
+  signal: AbortSignal;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+/** Splits `text` into sentence-aligned chunks of at most `wordLimit` words. */
+export function createTranslationChunks(text: string, wordLimit: number, locale?: string): TranslationChunk[] {
+  return splitByWordLimit(text, wordLimit, locale).map((piece, index) => {
+    const [, leading, body, trailing] = piece.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? ['', '', piece, ''];
+    return { index, text: body, leading, trailing, status: 'pending', attempts: 0 };
+  });
+}
+
+/** Reassembles translated chunks in source order. Chunks that are not done contribute nothing. */
+export function stitchTranslationChunks(chunks: readonly TranslationChunk[]): string {
+  return chunks
+    .map(chunk => chunk.status === 'done' ? chunk.leading + (chunk.translatedText ?? '') + chunk.trailing : '')
+    .join('')
+    .trim();
+}
+
+/**
+ * Server errors are worth retrying; a rejected request body is not. 429 and 503 are left alone:
+ * the API client's rate limiter has already backed off and retried them before they get here.
+ */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return true;
+  if (error.kind === 'http') {
+    return error.status === undefined || (error.status >= 500 && error.status !== 503);
+  }
+  return error.kind === 'network' || error.kind === 'invalid-response';
+}
+
+function isAborted(error: unknown): boolean {
+  return isAbortError(error) || (error instanceof DOMException && error.name === 'AbortError');
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Chunk retry was cancelled.', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Translates every chunk that is not already done, at most `concurrency` at a time. Failing
+ * chunks are retried with exponential backoff; a chunk that runs out of attempts is marked
+ * `failed` and the rest carry on. Resolves with the updated chunks, or rejects if `signal` fires.
+ */
+export async function translateChunks(
+  chunks: readonly TranslationChunk[],
+  { translate, concurrency, maxAttempts = DEFAULT_MAX_ATTEMPTS, onChunkChange, signal }: TranslateChunksOptions
+): Promise<TranslationChunk[]> {
+  const results = chunks.map(chunk => ({ ...chunk }));
+  const queue = results.filter(chunk => chunk.status !== 'done');
+
+  const update = (chunk: TranslationChunk, changes: Partial<TranslationChunk>) => {
+    Object.assign(chunk, changes);
+    onChunkChange?.({ ...chunk });
+  };
+
+  const translateOne = async (chunk: TranslationChunk) => {
+    update(chunk, { status: 'translating', attempts: 0, error: undefined });
+    for (;;) {
+      try {
+        update(chunk, { attempts: chunk.attempts + 1 });
+        const translatedText = await translate(chunk.text, signal);
+        update(chunk, { status: 'done', translatedText: translatedText.trim(), error: undefined });
+        return;
+      } catch (error) {
+        if (isAborted(error)) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        if (chunk.attempts >= maxAttempts || !isRetryable(error)) {
+          update(chunk, { status: 'failed', error: message });
+          return;
+        }
+        update(chunk, { status: 'retrying', error: message });
+        await wait(RETRY_BASE_DELAY_MS * 2 ** (chunk.attempts - 1), signal);
+      }
+    }
+  };
+
+  const worker = async () => {
+    for (let chunk = queue.shift(); chunk; chunk = queue.shift()) {
+      await translateOne(chunk);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+  return results;
+}
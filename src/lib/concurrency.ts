@@ -0,0 +1,50 @@
+/**
+ * @fileOverview concurrency.ts - A limiter that caps how many async tasks run at once, shared by
+ * callers that would otherwise each apply their own limit.
+ */
+
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most `limit` tasks at a time, starting queued tasks in order as
+ * running ones settle. A task still waiting in the queue when `signal` fires is dropped and
+ * rejects with an AbortError; a task that has started is left to honour the signal itself.
+ */
+export function createConcurrencyLimiter(limit: number): ConcurrencyLimiter {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const startNext = () => {
+    if (active >= Math.max(1, limit)) return;
+    const start = queue.shift();
+    if (!start) return;
+    active++;
+    start();
+  };
+
+  return <T>(task: () => Promise<T>, signal?: AbortSignal) => new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      const index = queue.indexOf(start);
+      if (index === -1) return;
+      queue.splice(index, 1);
+      reject(new DOMException('Queued task was cancelled.', 'AbortError'));
+    };
+    const start = () => {
+      signal?.removeEventListener('abort', onAbort);
+      task()
+        .then(resolve, reject)
+        .finally(() => {
+          active--;
+          startNext();
+        });
+    };
+
+    if (signal?.aborted) {
+      reject(new DOMException('Queued task was cancelled.', 'AbortError'));
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(start);
+    startNext();
+  });
+}
@@ -1,10 +1,8 @@
 
-export const LANGUAGES = [
-  { value: 'en', label: 'English' },
-  { value: 'en-US', label: 'English (US)' },
-  { value: 'vi', label: 'Vietnamese' },
-] as const;
+export const API_BASE_URL: string = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
 
-export type LanguageCode = typeof LANGUAGES[number]['value'];
-export type Language = typeof LANGUAGES[number];
+/** Words per translation request, used until the server advertises its own limit. */
+export const WORD_LIMIT = 500;
 
+/** Chunk requests kept in flight at once, used until the server advertises its own limit. */
+export const TRANSLATION_CONCURRENCY = 3;
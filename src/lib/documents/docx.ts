@@ -0,0 +1,58 @@
+import JSZip from 'jszip';
+import type { ParsedDocument } from './types';
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DOCUMENT_PART = 'word/document.xml';
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** Text runs that belong to `paragraph` itself, not to a paragraph nested inside it (e.g. a text box). */
+function getOwnTextNodes(paragraph: Element): Element[] {
+  return Array.from(paragraph.getElementsByTagNameNS(WORD_NS, 't')).filter(textNode => {
+    let ancestor = textNode.parentElement;
+    while (ancestor && !(ancestor.namespaceURI === WORD_NS && ancestor.localName === 'p')) {
+      ancestor = ancestor.parentElement;
+    }
+    return ancestor === paragraph;
+  });
+}
+
+/**
+ * Parses a .docx file. Each paragraph of the main document body with text becomes a segment.
+ * On rebuild the translation goes into the paragraph's first text run and the other runs are
+ * emptied, so paragraph styles, lists, tables and images survive while formatting that changes
+ * mid-paragraph takes on the first run's style.
+ */
+export async function parseDocx(fileName: string, data: Blob): Promise<ParsedDocument> {
+  const zip = await JSZip.loadAsync(data);
+  const documentFile = zip.file(DOCUMENT_PART);
+  if (!documentFile) {
+    throw new Error('This .docx file has no main document part.');
+  }
+  const xml = await documentFile.async('string');
+  const xmlDocument = new DOMParser().parseFromString(xml, 'application/xml');
+  if (xmlDocument.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The .docx document part is not valid XML.');
+  }
+
+  const paragraphs = Array.from(xmlDocument.getElementsByTagNameNS(WORD_NS, 'p'))
+    .map(paragraph => ({ paragraph, textNodes: getOwnTextNodes(paragraph) }))
+    .filter(({ textNodes }) => textNodes.some(node => node.textContent?.trim()));
+
+  return {
+    format: 'docx',
+    fileName,
+    segments: paragraphs.map(({ textNodes }) => textNodes.map(node => node.textContent ?? '').join('')),
+    build: async (translations) => {
+      paragraphs.forEach(({ textNodes }, index) => {
+        const translation = translations[index];
+        if (translation === undefined) return;
+        textNodes.forEach((node, nodeIndex) => {
+          node.textContent = nodeIndex === 0 ? translation : '';
+        });
+        textNodes[0].setAttributeNS('http://www.w3.org/XML/1998/namespace', 'xml:space', 'preserve');
+      });
+      zip.file(DOCUMENT_PART, new XMLSerializer().serializeToString(xmlDocument));
+      return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE, compression: 'DEFLATE' });
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import type { DocumentFormat, ParsedDocument } from './types';
+import { parseDocx } from './docx';
+import { parseMarkdown } from './markdown';
+import { parsePlainText } from './plain-text';
+import { parseSrt } from './srt';
+
+export type { DocumentFormat, ParsedDocument } from './types';
+export { translateSegments } from './translate';
+export type { DocumentTranslationProgress } from './translate';
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  txt: 'txt',
+  text: 'txt',
+  md: 'md',
+  markdown: 'md',
+  srt: 'srt',
+  docx: 'docx',
+};
+
+/** Value for an `<input type="file">` accept attribute covering every supported format. */
+export const DOCUMENT_ACCEPT = '.txt,.text,.md,.markdown,.srt,.docx';
+
+export function getDocumentFormat(fileName: string): DocumentFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return FORMAT_BY_EXTENSION[extension] ?? null;
+}
+
+/** Parses an uploaded file into translatable segments. Throws for unsupported or unreadable files. */
+export async function parseDocument(file: File): Promise<ParsedDocument> {
+  const format = getDocumentFormat(file.name);
+  switch (format) {
+    case 'txt':
+      return parsePlainText(file.name, await file.text());
+    case 'md':
+      return parseMarkdown(file.name, await file.text());
+    case 'srt':
+      return parseSrt(file.name, await file.text());
+    case 'docx':
+      return parseDocx(file.name, file);
+    default:
+      throw new Error(`Unsupported file type. Upload one of: ${DOCUMENT_ACCEPT.split(',').join(', ')}.`);
+  }
+}
+
+/** `report.srt` translated to Vietnamese becomes `report.vi.srt`. */
+export function getTranslatedFileName(fileName: string, targetLanguage: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex === -1
+    ? `${fileName}.${targetLanguage}`
+    : `${fileName.slice(0, dotIndex)}.${targetLanguage}${fileName.slice(dotIndex)}`;
+}
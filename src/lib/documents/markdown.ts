@@ -0,0 +1,76 @@
+import type { ParsedDocument, TemplatePart } from './types';
+import { createTemplateDocument, detectLineEnding } from './template';
+
+const FENCE = /^\s*(```|~~~)/;
+// Headings, blockquotes, list bullets, ordered-list numbers and task-list boxes, in any nesting.
+const BLOCK_PREFIX = /^(\s*(?:#{1,6}\s+|>\s?|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+)*)(.*?)(\s*)$/;
+const TABLE_DELIMITER_ROW = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const THEMATIC_BREAK = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LINK_DEFINITION = /^\s*\[[^\]]+\]:\s*\S+/;
+const HTML_LINE = /^\s*<\/?[a-zA-Z][^>]*>\s*$/;
+
+function parseTableRow(line: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  // Split on unescaped pipes while keeping them as verbatim parts.
+  for (const cell of line.split(/((?<!\\)\|)/)) {
+    if (cell === '|') {
+      parts.push({ literal: cell });
+      continue;
+    }
+    const [, leading, content, trailing] = cell.match(/^(\s*)(.*?)(\s*)$/) ?? ['', '', cell, ''];
+    if (leading) parts.push({ literal: leading });
+    if (content) parts.push({ segment: content });
+    if (trailing) parts.push({ literal: trailing });
+  }
+  return parts;
+}
+
+/**
+ * Parses Markdown line by line. Block syntax (heading hashes, list markers, quote markers, table
+ * pipes) is kept verbatim and only the prose on each line becomes a segment. Fenced code blocks,
+ * front matter, thematic breaks, link definitions and raw HTML lines are not translated.
+ */
+export function parseMarkdown(fileName: string, text: string): ParsedDocument {
+  const lineEnding = detectLineEnding(text);
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const parts: TemplatePart[] = [];
+
+  let openFence: string | null = null;
+  let inFrontMatter = lines[0]?.trim() === '---';
+
+  lines.forEach((line, index) => {
+    const newline = index < lines.length - 1 ? '\n' : '';
+    const fenceMatch = line.match(FENCE);
+
+    if (inFrontMatter) {
+      parts.push({ literal: line + newline });
+      if (index > 0 && line.trim() === '---') inFrontMatter = false;
+      return;
+    }
+    if (openFence) {
+      parts.push({ literal: line + newline });
+      if (fenceMatch && fenceMatch[1] === openFence) openFence = null;
+      return;
+    }
+    if (fenceMatch) {
+      openFence = fenceMatch[1];
+      parts.push({ literal: line + newline });
+      return;
+    }
+    if (!line.trim() || THEMATIC_BREAK.test(line) || LINK_DEFINITION.test(line) || HTML_LINE.test(line) || TABLE_DELIMITER_ROW.test(line)) {
+      parts.push({ literal: line + newline });
+      return;
+    }
+    if (/^\s*\|/.test(line)) {
+      parts.push(...parseTableRow(line), { literal: newline });
+      return;
+    }
+
+    const [, prefix, content, suffix] = line.match(BLOCK_PREFIX) ?? ['', '', line, ''];
+    if (prefix) parts.push({ literal: prefix });
+    if (content) parts.push({ segment: content });
+    parts.push({ literal: suffix + newline });
+  });
+
+  return createTemplateDocument('md', fileName, 'text/markdown', parts, lineEnding);
+}
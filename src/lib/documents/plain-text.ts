@@ -0,0 +1,13 @@
+import type { ParsedDocument, TemplatePart } from './types';
+import { createTemplateDocument, detectLineEnding } from './template';
+
+/** Splits plain text into paragraphs; the blank lines between them are kept verbatim. */
+export function parsePlainText(fileName: string, text: string): ParsedDocument {
+  const lineEnding = detectLineEnding(text);
+  const normalized = text.replace(/\r\n/g, '\n');
+  const parts: TemplatePart[] = normalized
+    .split(/(\n[ \t]*\n\s*)/)
+    .filter(piece => piece.length > 0)
+    .map(piece => /^\s+$/.test(piece) ? { literal: piece } : { segment: piece });
+  return createTemplateDocument('txt', fileName, 'text/plain', parts, lineEnding);
+}
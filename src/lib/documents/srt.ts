@@ -0,0 +1,28 @@
+import type { ParsedDocument, TemplatePart } from './types';
+import { createTemplateDocument, detectLineEnding } from './template';
+
+const TIMESTAMP_LINE = /^\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}/;
+
+/**
+ * Parses SubRip subtitles. Cue numbers and timing lines are kept verbatim; each cue's text
+ * (possibly several lines) is one segment. Blocks that are not valid cues pass through untouched.
+ */
+export function parseSrt(fileName: string, text: string): ParsedDocument {
+  const lineEnding = detectLineEnding(text);
+  const normalized = text.replace(/\r\n/g, '\n').replace(/^\uFEFF/, '');
+  const parts: TemplatePart[] = [];
+
+  for (const piece of normalized.split(/(\n{2,})/)) {
+    if (!piece) continue;
+    const lines = piece.split('\n');
+    const timingIndex = lines.findIndex(line => TIMESTAMP_LINE.test(line));
+    // A cue is an optional number line, the timing line, then the text lines.
+    if (timingIndex === -1 || timingIndex > 1 || timingIndex === lines.length - 1) {
+      parts.push({ literal: piece });
+      continue;
+    }
+    parts.push({ literal: lines.slice(0, timingIndex + 1).join('\n') + '\n' });
+    parts.push({ segment: lines.slice(timingIndex + 1).join('\n') });
+  }
+  return createTemplateDocument('srt', fileName, 'application/x-subrip', parts, lineEnding);
+}
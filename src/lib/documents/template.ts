@@ -0,0 +1,37 @@
+import type { DocumentFormat, ParsedDocument, TemplatePart } from './types';
+
+/**
+ * Builds a ParsedDocument for text formats from a list of verbatim and translatable parts.
+ * Whitespace-only segments are folded into the verbatim text.
+ */
+export function createTemplateDocument(
+  format: DocumentFormat,
+  fileName: string,
+  mimeType: string,
+  parts: TemplatePart[],
+  lineEnding: '\n' | '\r\n' = '\n'
+): ParsedDocument {
+  const normalizedParts: TemplatePart[] = parts.map(part =>
+    'segment' in part && !part.segment.trim() ? { literal: part.segment } : part
+  );
+  const segments = normalizedParts.flatMap(part => 'segment' in part ? [part.segment] : []);
+
+  return {
+    format,
+    fileName,
+    segments,
+    build: async (translations) => {
+      let segmentIndex = 0;
+      const text = normalizedParts
+        .map(part => 'segment' in part ? translations[segmentIndex++] ?? part.segment : part.literal)
+        .join('');
+      const output = lineEnding === '\r\n' ? text.replace(/\r?\n/g, '\r\n') : text;
+      return new Blob([output], { type: `${mimeType};charset=utf-8` });
+    },
+  };
+}
+
+/** Returns the dominant line ending so rebuilt files match the original. */
+export function detectLineEnding(text: string): '\n' | '\r\n' {
+  return text.includes('\r\n') ? '\r\n' : '\n';
+}
@@ -0,0 +1,118 @@
+/**
+ * @fileOverview translate.ts - Translates a document's segments in chunks that stay under the
+ * word limit. Segments are packed into chunks separated by blank lines so each request carries
+ * context; when a translated chunk does not split back into the same number of segments, that
+ * chunk is retried one segment at a time.
+ */
+import { countWords, splitByWordLimit } from '@/lib/text-segmentation';
+
+const SEGMENT_SEPARATOR = '\n\n';
+const SEGMENT_BOUNDARY = /\n[ \t]*\n\s*/;
+
+export interface DocumentTranslationProgress {
+  completedSegments: number;
+  totalSegments: number;
+}
+
+export interface TranslateSegmentsOptions {
+  wordLimit: number;
+  /** Translates one piece of text; called once per chunk (or per segment on fallback). */
+  translate: (text: string, signal?: AbortSignal) => Promise<string>;
+  onProgress?: (progress: DocumentTranslationProgress) => void;
+  signal?: AbortSignal;
+  /** Locale used to find sentence boundaries in over-long segments. */
+  locale?: string;
+}
+
+interface TranslationUnit {
+  segmentIndex: number;
+  leading: string;
+  text: string;
+  trailing: string;
+}
+
+function toUnit(segmentIndex: number, piece: string): TranslationUnit {
+  const [, leading, text, trailing] = piece.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? ['', '', piece, ''];
+  return { segmentIndex, leading, text, trailing };
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('Document translation was cancelled.', 'AbortError');
+  }
+}
+
+/**
+ * Translates `segments` and resolves with one translation per segment. Surrounding whitespace of
+ * each segment is preserved so the rebuilt document keeps its layout.
+ */
+export async function translateSegments(segments: string[], options: TranslateSegmentsOptions): Promise<string[]> {
+  const { wordLimit, translate, onProgress, signal, locale } = options;
+
+  // Over-long segments are split at sentence boundaries and reassembled afterwards.
+  const units: TranslationUnit[] = segments.flatMap((segment, segmentIndex) =>
+    splitByWordLimit(segment, wordLimit, locale).map(piece => toUnit(segmentIndex, piece))
+  );
+
+  const chunks: TranslationUnit[][] = [];
+  let currentChunk: TranslationUnit[] = [];
+  let currentWordCount = 0;
+  units.forEach(unit => {
+    const unitWordCount = countWords(unit.text);
+    // Units containing blank lines cannot be told apart after joining, so they travel alone.
+    const mustTravelAlone = SEGMENT_BOUNDARY.test(unit.text);
+    if (currentChunk.length > 0 && (mustTravelAlone || currentWordCount + unitWordCount > wordLimit)) {
+      chunks.push(currentChunk);
+      currentChunk = [];
+      currentWordCount = 0;
+    }
+    currentChunk.push(unit);
+    currentWordCount += unitWordCount;
+    if (mustTravelAlone) {
+      chunks.push(currentChunk);
+      currentChunk = [];
+      currentWordCount = 0;
+    }
+  });
+  if (currentChunk.length > 0) chunks.push(currentChunk);
+
+  const translatedUnits = new Map<TranslationUnit, string>();
+  const pendingUnitsPerSegment = segments.map(() => 0);
+  units.forEach(unit => pendingUnitsPerSegment[unit.segmentIndex]++);
+  let completedSegments = pendingUnitsPerSegment.filter(count => count === 0).length;
+  const markTranslated = (unit: TranslationUnit, translation: string) => {
+    translatedUnits.set(unit, translation);
+    if (--pendingUnitsPerSegment[unit.segmentIndex] === 0) completedSegments++;
+  };
+  const reportProgress = () => onProgress?.({ completedSegments, totalSegments: segments.length });
+  reportProgress();
+
+  for (const chunk of chunks) {
+    const translatable = chunk.filter(unit => unit.text.trim());
+    chunk.filter(unit => !unit.text.trim()).forEach(unit => markTranslated(unit, unit.text));
+
+    if (translatable.length === 1) {
+      throwIfAborted(signal);
+      markTranslated(translatable[0], (await translate(translatable[0].text, signal)).trim());
+    } else if (translatable.length > 1) {
+      throwIfAborted(signal);
+      const translatedChunk = await translate(translatable.map(unit => unit.text).join(SEGMENT_SEPARATOR), signal);
+      const pieces = translatedChunk.trim().split(SEGMENT_BOUNDARY);
+      if (pieces.length === translatable.length) {
+        translatable.forEach((unit, index) => markTranslated(unit, pieces[index].trim()));
+      } else {
+        for (const unit of translatable) {
+          throwIfAborted(signal);
+          markTranslated(unit, (await translate(unit.text, signal)).trim());
+        }
+      }
+    }
+    reportProgress();
+  }
+
+  const results = segments.map(() => '');
+  units.forEach(unit => {
+    results[unit.segmentIndex] += unit.leading + (translatedUnits.get(unit) ?? unit.text) + unit.trailing;
+  });
+  return results;
+}
@@ -0,0 +1,19 @@
+/**
+ * @fileOverview types.ts - Shared shape of an uploaded document once parsed into translatable
+ * segments, independent of its file format.
+ */
+
+export type DocumentFormat = 'txt' | 'md' | 'srt' | 'docx';
+
+export interface ParsedDocument {
+  format: DocumentFormat;
+  /** Name of the uploaded file, extension included. */
+  fileName: string;
+  /** Translatable text units in document order. Structure (markup, timestamps) is kept aside. */
+  segments: string[];
+  /** Rebuilds the document in its original format with `translations[i]` in place of `segments[i]`. */
+  build(translations: string[]): Promise<Blob>;
+}
+
+/** A piece of a text-based document: either kept verbatim or replaced by its translation. */
+export type TemplatePart = { literal: string } | { segment: string };
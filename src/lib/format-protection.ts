@@ -0,0 +1,203 @@
+/**
+ * @fileOverview format-protection.ts - Keeps Markdown and HTML intact through translation. Markup,
+ * code, URLs and interpolation placeholders such as `{name}` or `%s` are swapped for numbered
+ * tokens the model passes through, then swapped back into the translation. Also checks a
+ * translation for protected items that went missing or were duplicated.
+ */
+
+import type { PreparedGlossaryText } from '@/lib/glossary';
+
+export type InputFormat = 'plain' | 'markdown' | 'html';
+
+export const INPUT_FORMAT_LABELS: Record<InputFormat, string> = {
+  plain: 'Plain text',
+  markdown: 'Markdown',
+  html: 'HTML',
+};
+
+export function isInputFormat(value: unknown): value is InputFormat {
+  return value === 'plain' || value === 'markdown' || value === 'html';
+}
+
+// Interpolation placeholders: ${var}, {{var}}, {name}, {0}, printf-style %s/%1$d/%.2f and %(name)s.
+// A printf conversion must not run on into a word or follow a number, so "100%effective" and
+// "50%s" stay prose.
+const PLACEHOLDER_RULES = [
+  /\$\{[^{}\n]+\}/g,
+  /\{\{[^{}\n]+\}\}/g,
+  /\{[\p{L}\d_][\p{L}\d_.]*\}/gu,
+  /%\([\w]+\)[sdif](?![\p{L}\d_])/gu,
+  /(?<!\d)%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?[diufFeEgGxXoscp@](?![\p{L}\d_])/gu,
+];
+
+const URL_RULE = /\bhttps?:\/\/[^\s<>()[\]]*[^\s<>()[\].,;:!?'"]/g;
+
+const MARKDOWN_RULES = [
+  /^[ \t]*```[^\n]*\n[\s\S]*?^[ \t]*```[ \t]*$/gm,
+  /^[ \t]*~~~[^\n]*\n[\s\S]*?^[ \t]*~~~[ \t]*$/gm,
+  /``[^\n]+?``/g,
+  /`[^`\n]+`/g,
+  /<!--[\s\S]*?-->/g,
+  /<\/?[A-Za-z][^<>\n]*>/g,
+  // Reference-style link definitions are protected whole: `[id]: https://example.com "Title"`.
+  /^[ \t]{0,3}\[[^\]\n]+\]:[ \t]*\S+.*$/gm,
+  // Link and image syntax around translatable link text: `[`/`![` and `](target "title")`.
+  /!?\[(?=[^\]\n]*\]\()/g,
+  /\]\([^)\s]*(?:[ \t]+"[^"\n]*")?\)/g,
+  URL_RULE,
+  // Horizontal rules and table delimiter rows.
+  /^[ \t]*(?:[-*_][ \t]*){3,}$/gm,
+  /^[ \t]*\|?[ \t]*:?-{3,}:?[ \t]*(?:\|[ \t]*:?-{3,}:?[ \t]*)*\|?[ \t]*$/gm,
+  // Block markers at the start of a line: quotes, headings, list bullets (with task boxes), numbers.
+  /^[ \t]*(?:>[ \t]?)*(?:#{1,6}[ \t]+|[-*+][ \t]+(?:\[[ xX]\][ \t]+)?|\d+[.)][ \t]+)/gm,
+  /^[ \t]*(?:>[ \t]?)+/gm,
+  /[ \t]*\|[ \t]*/g,
+  /\*\*|__|~~/g,
+  ...PLACEHOLDER_RULES,
+];
+
+const HTML_RULES = [
+  /<(script|style|pre|code)\b[^>]*>[\s\S]*?<\/\1\s*>/gi,
+  /<!--[\s\S]*?-->/g,
+  /<![^>]*>/g,
+  /<\/?[A-Za-z][^<>]*>/g,
+  /&(?:[A-Za-z][A-Za-z\d]*|#\d+|#x[\da-fA-F]+);/g,
+  URL_RULE,
+  ...PLACEHOLDER_RULES,
+];
+
+const RULES: Record<InputFormat, RegExp[]> = {
+  plain: [],
+  markdown: MARKDOWN_RULES,
+  html: HTML_RULES,
+};
+
+interface ProtectedSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds the spans of `text` to keep verbatim. Rules are applied in priority order and a later
+ * match overlapping an earlier one is dropped, so a URL inside a code block stays part of it.
+ */
+function findProtectedSpans(text: string, rules: readonly RegExp[]): ProtectedSpan[] {
+  const spans: ProtectedSpan[] = [];
+  for (const rule of rules) {
+    for (const found of text.matchAll(rule)) {
+      const start = found.index ?? 0;
+      const end = start + found[0].length;
+      if (end > start && !spans.some(span => start < span.end && end > span.start)) {
+        spans.push({ start, end });
+      }
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/** Joins spans separated only by spaces or tabs, so `**[` or `</b></i>` becomes one token. */
+function mergeAdjacentSpans(text: string, spans: readonly ProtectedSpan[]): ProtectedSpan[] {
+  const merged: ProtectedSpan[] = [];
+  spans.forEach(span => {
+    const previous = merged[merged.length - 1];
+    if (previous && /^[ \t]*$/.test(text.slice(previous.end, span.start))) {
+      previous.end = span.end;
+    } else {
+      merged.push({ ...span });
+    }
+  });
+  return merged;
+}
+
+// Mathematical double angle brackets, distinct from the ⟦n⟧ tokens the glossary uses.
+const token = (index: number) => `⟪${index}⟫`;
+const TOKEN_PATTERN = /⟪\s*(\d+)\s*⟫/g;
+
+export interface ProtectedText {
+  /** Text to send to the translation endpoint, with protected spans replaced by tokens. */
+  text: string;
+  /** The protected spans, indexed by token number. */
+  protectedItems: string[];
+  /** Distinguishes cached translations made in different input formats. */
+  cacheVariant: string;
+  /** Puts the protected spans back into a (possibly partial) translation. */
+  restore(translatedText: string): string;
+}
+
+function protectSpans(text: string, rules: readonly RegExp[], cacheVariant: string): ProtectedText {
+  const spans = mergeAdjacentSpans(text, findProtectedSpans(text, rules));
+  if (spans.length === 0) {
+    return { text, protectedItems: [], cacheVariant, restore: translatedText => translatedText };
+  }
+
+  let maskedText = '';
+  let cursor = 0;
+  const protectedItems: string[] = [];
+  spans.forEach(span => {
+    maskedText += text.slice(cursor, span.start) + token(protectedItems.length);
+    protectedItems.push(text.slice(span.start, span.end));
+    cursor = span.end;
+  });
+  maskedText += text.slice(cursor);
+
+  return {
+    text: maskedText,
+    protectedItems,
+    cacheVariant,
+    restore: translatedText => translatedText.replace(TOKEN_PATTERN, (match, index: string) =>
+      protectedItems[Number(index)] ?? match
+    ),
+  };
+}
+
+/** Masks the markup, code, URLs and placeholders in `text`; plain text is returned untouched. */
+export function protectFormatting(text: string, format: InputFormat): ProtectedText {
+  return protectSpans(text, RULES[format], format === 'plain' ? '' : `format:${format}`);
+}
+
+/** Masks only interpolation placeholders such as `{name}` and `%s`, whatever the input format. */
+export function protectPlaceholders(text: string): ProtectedText {
+  return protectSpans(text, PLACEHOLDER_RULES, 'placeholders');
+}
+
+/**
+ * Chains format protection with glossary preparation done on the protected text, so glossary
+ * terms are never matched inside markup. The glossary is undone first, then the formatting.
+ */
+export function withFormatProtection(protectedText: ProtectedText, prepared: PreparedGlossaryText): PreparedGlossaryText {
+  return {
+    ...prepared,
+    cacheVariant: [protectedText.cacheVariant, prepared.cacheVariant].filter(Boolean).join(';'),
+    restore: translatedText => protectedText.restore(prepared.restore(translatedText)),
+  };
+}
+
+export interface ProtectedItemMismatch {
+  /** The protected text, e.g. `{name}` or `**`. */
+  item: string;
+  sourceCount: number;
+  translationCount: number;
+}
+
+function countItems(text: string, rules: readonly RegExp[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  findProtectedSpans(text, rules).forEach(span => {
+    const item = text.slice(span.start, span.end).trim();
+    if (item) counts.set(item, (counts.get(item) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Compares how often each protected item occurs in the source and the translation. Plain text
+ * is only checked for interpolation placeholders. Returns the items whose counts differ.
+ */
+export function findProtectedItemMismatches(sourceText: string, translatedText: string, format: InputFormat): ProtectedItemMismatch[] {
+  const rules = format === 'plain' ? PLACEHOLDER_RULES : RULES[format];
+  const sourceCounts = countItems(sourceText, rules);
+  const translationCounts = countItems(translatedText, rules);
+  const items = new Set([...sourceCounts.keys(), ...translationCounts.keys()]);
+  return Array.from(items)
+    .map(item => ({ item, sourceCount: sourceCounts.get(item) ?? 0, translationCount: translationCounts.get(item) ?? 0 }))
+    .filter(mismatch => mismatch.sourceCount !== mismatch.translationCount);
+}
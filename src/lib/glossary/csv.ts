@@ -0,0 +1,105 @@
+import { isLanguageCode } from '@/lib/languages';
+import type { LanguageCode } from '@/lib/languages';
+import type { GlossaryEntry, NewGlossaryEntry } from './types';
+
+const CSV_COLUMNS = ['source_language', 'target_language', 'source_term', 'target_term', 'do_not_translate', 'case_sensitive'] as const;
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Splits CSV text into rows of fields, honouring quoted fields with embedded commas, quotes and newlines. */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+const isTruthy = (value: string | undefined) => /^(1|true|yes|y|x)$/i.test(value?.trim() ?? '');
+
+export function exportGlossaryCsv(entries: readonly GlossaryEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  entries.forEach(entry => {
+    lines.push([
+      entry.sourceLanguage,
+      entry.targetLanguage,
+      entry.sourceTerm,
+      entry.doNotTranslate ? entry.sourceTerm : entry.targetTerm,
+      entry.doNotTranslate ? 'true' : 'false',
+      entry.caseSensitive ? 'true' : 'false',
+    ].map(escapeCsvField).join(','));
+  });
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Reads glossary entries from CSV. With a header row the columns may come in any order and only
+ * `source_term` is required; without one the columns are taken as `source_term, target_term`.
+ * Rows without languages are assigned to `fallbackPair`.
+ */
+export function parseGlossaryCsv(
+  text: string,
+  fallbackPair: { sourceLanguage: LanguageCode; targetLanguage: LanguageCode }
+): NewGlossaryEntry[] {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(name => name.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const hasHeader = header.includes('source_term');
+  const column = (name: (typeof CSV_COLUMNS)[number]) => hasHeader ? header.indexOf(name) : ['source_term', 'target_term'].indexOf(name);
+  const read = (fields: string[], name: (typeof CSV_COLUMNS)[number]) => {
+    const index = column(name);
+    return index === -1 ? undefined : fields[index]?.trim();
+  };
+
+  return (hasHeader ? rows.slice(1) : rows).flatMap(fields => {
+    const sourceTerm = read(fields, 'source_term');
+    if (!sourceTerm) return [];
+    const sourceLanguage = read(fields, 'source_language');
+    const targetLanguage = read(fields, 'target_language');
+    const targetTerm = read(fields, 'target_term') || '';
+    const doNotTranslate = isTruthy(read(fields, 'do_not_translate')) || !targetTerm || targetTerm === sourceTerm;
+    return [{
+      sourceLanguage: isLanguageCode(sourceLanguage) ? sourceLanguage : fallbackPair.sourceLanguage,
+      targetLanguage: isLanguageCode(targetLanguage) ? targetLanguage : fallbackPair.targetLanguage,
+      sourceTerm,
+      targetTerm: doNotTranslate ? sourceTerm : targetTerm,
+      doNotTranslate,
+      caseSensitive: isTruthy(read(fields, 'case_sensitive')),
+    }];
+  });
+}
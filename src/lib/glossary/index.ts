@@ -0,0 +1,5 @@
+export type { GlossaryEntry, NewGlossaryEntry } from './types';
+export { findGlossaryMatches, findTermRanges, prepareGlossaryText } from './matching';
+export type { GlossaryMatch, PreparedGlossaryText, TermRange } from './matching';
+export { exportGlossaryCsv, parseGlossaryCsv } from './csv';
+export { exportGlossaryTbx, parseGlossaryTbx } from './tbx';
@@ -0,0 +1,126 @@
+/**
+ * @fileOverview matching.ts - Finds glossary terms in text and enforces them around a
+ * translation request, either by masking them with placeholders the model leaves alone or by
+ * handing the matched terms to a server that enforces glossaries itself.
+ */
+import type { GlossaryTerm } from '@/lib/api';
+import type { GlossaryEntry } from './types';
+
+export interface TermRange {
+  start: number;
+  end: number;
+}
+
+export interface GlossaryMatch extends TermRange {
+  entry: GlossaryEntry;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Matches `term` as a whole word or phrase; inner whitespace may vary. */
+function termPattern(term: string, caseSensitive: boolean): RegExp {
+  const body = term.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])`, caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Finds non-overlapping occurrences of the entries' source terms in `text`, in text order.
+ * Longer terms win over shorter ones they contain ("Lingua Craft Pro" over "Lingua Craft").
+ */
+export function findGlossaryMatches(text: string, entries: readonly GlossaryEntry[]): GlossaryMatch[] {
+  const byLength = [...entries]
+    .filter(entry => entry.sourceTerm.trim())
+    .sort((a, b) => b.sourceTerm.length - a.sourceTerm.length);
+
+  const matches: GlossaryMatch[] = [];
+  const overlaps = (start: number, end: number) => matches.some(match => start < match.end && end > match.start);
+  for (const entry of byLength) {
+    for (const found of text.matchAll(termPattern(entry.sourceTerm, entry.caseSensitive))) {
+      const start = found.index ?? 0;
+      const end = start + found[0].length;
+      if (!overlaps(start, end)) matches.push({ entry, start, end });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/** Ranges of `text` covered by any of `terms`, for highlighting. Case-insensitive, longest first. */
+export function findTermRanges(text: string, terms: readonly string[]): TermRange[] {
+  const unique = Array.from(new Set(terms.map(term => term.trim()).filter(Boolean)))
+    .sort((a, b) => b.length - a.length);
+  const ranges: TermRange[] = [];
+  for (const term of unique) {
+    for (const found of text.matchAll(termPattern(term, false))) {
+      const start = found.index ?? 0;
+      const end = start + found[0].length;
+      if (!ranges.some(range => start < range.end && end > range.start)) ranges.push({ start, end });
+    }
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+// Mathematical white square brackets: rare in real text and passed through verbatim by the model.
+const placeholder = (index: number) => `⟦${index}⟧`;
+const PLACEHOLDER_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+
+export interface PreparedGlossaryText {
+  /** Text to send to the translation endpoint. */
+  text: string;
+  /** Entries found in the source, in text order. */
+  matchedEntries: GlossaryEntry[];
+  /** Terms to send along with the request when the server enforces glossaries itself. */
+  serverGlossary?: GlossaryTerm[];
+  /** Distinguishes cached translations made with different server-side glossaries. */
+  cacheVariant: string;
+  /** Turns the raw translation (possibly partial) into what the user sees. */
+  restore(translatedText: string): string;
+}
+
+/**
+ * Applies a glossary to `text` before translation. By default each matched term is replaced with
+ * a numbered placeholder and `restore` swaps the target term back in. With `useServerGlossary`
+ * the text is sent untouched together with the matched terms.
+ */
+export function prepareGlossaryText(
+  text: string,
+  entries: readonly GlossaryEntry[],
+  { useServerGlossary = false }: { useServerGlossary?: boolean } = {}
+): PreparedGlossaryText {
+  const matches = findGlossaryMatches(text, entries);
+  const matchedEntries = matches.map(match => match.entry);
+  if (matches.length === 0) {
+    return { text, matchedEntries, cacheVariant: '', restore: translatedText => translatedText };
+  }
+
+  if (useServerGlossary) {
+    const serverGlossary = Array.from(new Map(matchedEntries.map(entry => [entry.id, entry])).values())
+      .map(entry => ({ source: entry.sourceTerm, target: entry.doNotTranslate ? entry.sourceTerm : entry.targetTerm }));
+    return {
+      text,
+      matchedEntries,
+      serverGlossary,
+      cacheVariant: serverGlossary.map(term => `${term.source}=${term.target}`).join(';'),
+      restore: translatedText => translatedText,
+    };
+  }
+
+  let maskedText = '';
+  let cursor = 0;
+  const replacements: string[] = [];
+  matches.forEach(match => {
+    maskedText += text.slice(cursor, match.start) + placeholder(replacements.length);
+    // Protected terms keep the exact spelling used in the source.
+    replacements.push(match.entry.doNotTranslate ? text.slice(match.start, match.end) : match.entry.targetTerm);
+    cursor = match.end;
+  });
+  maskedText += text.slice(cursor);
+
+  return {
+    text: maskedText,
+    matchedEntries,
+    cacheVariant: '',
+    restore: translatedText => translatedText.replace(PLACEHOLDER_PATTERN, (token, index: string) =>
+      replacements[Number(index)] ?? token
+    ),
+  };
+}
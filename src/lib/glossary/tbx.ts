@@ -0,0 +1,93 @@
+import { isLanguageCode } from '@/lib/languages';
+import type { LanguageCode } from '@/lib/languages';
+import type { GlossaryEntry, NewGlossaryEntry } from './types';
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const DO_NOT_TRANSLATE_NOTE = 'do-not-translate';
+const CASE_SENSITIVE_NOTE = 'case-sensitive';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Serializes entries as TBX-Basic (`martif`), one `termEntry` per glossary entry. */
+export function exportGlossaryTbx(entries: readonly GlossaryEntry[]): string {
+  const termEntries = entries.map(entry => {
+    const notes = [
+      entry.doNotTranslate ? `      <note>${DO_NOT_TRANSLATE_NOTE}</note>` : null,
+      entry.caseSensitive ? `      <note>${CASE_SENSITIVE_NOTE}</note>` : null,
+    ].filter(Boolean);
+    return [
+      `    <termEntry id="${escapeXml(entry.id)}">`,
+      ...notes,
+      `      <langSet xml:lang="${entry.sourceLanguage}"><tig><term>${escapeXml(entry.sourceTerm)}</term></tig></langSet>`,
+      `      <langSet xml:lang="${entry.targetLanguage}"><tig><term>${escapeXml(entry.doNotTranslate ? entry.sourceTerm : entry.targetTerm)}</term></tig></langSet>`,
+      '    </termEntry>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<martif type="TBX-Basic" xml:lang="en">',
+    '  <martifHeader><fileDesc><sourceDesc><p>LinguaCraft glossary</p></sourceDesc></fileDesc></martifHeader>',
+    '  <text><body>',
+    ...termEntries,
+    '  </body></text>',
+    '</martif>',
+    '',
+  ].join('\n');
+}
+
+const childElements = (parent: Element, localNames: string[]) =>
+  Array.from(parent.getElementsByTagName('*')).filter(element => localNames.includes(element.localName));
+
+/**
+ * Reads glossary entries from TBX. Both TBX v2 (`termEntry`/`langSet`/`tig`) and TBX v3
+ * (`conceptEntry`/`langSec`/`termSec`) are accepted. A concept with terms in both languages of
+ * `preferredPair` becomes an entry for that pair; otherwise its first two languages are used.
+ */
+export function parseGlossaryTbx(
+  xml: string,
+  preferredPair: { sourceLanguage: LanguageCode; targetLanguage: LanguageCode }
+): NewGlossaryEntry[] {
+  const xmlDocument = new DOMParser().parseFromString(xml, 'application/xml');
+  if (xmlDocument.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The TBX file is not valid XML.');
+  }
+
+  return childElements(xmlDocument.documentElement, ['termEntry', 'conceptEntry']).flatMap(concept => {
+    const terms = new Map<LanguageCode, string>();
+    childElements(concept, ['langSet', 'langSec']).forEach(langSet => {
+      const language = langSet.getAttributeNS(XML_NS, 'lang') || langSet.getAttribute('xml:lang');
+      const term = childElements(langSet, ['term'])[0]?.textContent?.trim();
+      if (isLanguageCode(language) && term && !terms.has(language)) terms.set(language, term);
+    });
+
+    const { sourceLanguage, targetLanguage } = preferredPair;
+    let pair: [LanguageCode, LanguageCode] | null = null;
+    if (terms.has(sourceLanguage) && terms.has(targetLanguage)) {
+      pair = [sourceLanguage, targetLanguage];
+    } else if (terms.size >= 2) {
+      const [first, second] = Array.from(terms.keys());
+      pair = [first, second];
+    }
+    if (!pair) return [];
+
+    const notes = childElements(concept, ['note', 'termNote', 'descrip']).map(note => note.textContent?.trim().toLowerCase());
+    const sourceTerm = terms.get(pair[0]) ?? '';
+    const targetTerm = terms.get(pair[1]) ?? '';
+    const doNotTranslate = notes.includes(DO_NOT_TRANSLATE_NOTE) || sourceTerm === targetTerm;
+    return [{
+      sourceLanguage: pair[0],
+      targetLanguage: pair[1],
+      sourceTerm,
+      targetTerm: doNotTranslate ? sourceTerm : targetTerm,
+      doNotTranslate,
+      caseSensitive: notes.includes(CASE_SENSITIVE_NOTE),
+    }];
+  });
+}
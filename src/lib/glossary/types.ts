@@ -0,0 +1,21 @@
+/**
+ * @fileOverview types.ts - Glossary entries as stored and edited by the user. Each entry belongs
+ * to one translation direction (source → target language).
+ */
+import type { LanguageCode } from '@/lib/languages';
+
+export interface GlossaryEntry {
+  id: string;
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+  /** Term as it appears in source text. */
+  sourceTerm: string;
+  /** Required rendering in the target language. Equal to `sourceTerm` for do-not-translate terms. */
+  targetTerm: string;
+  /** Protected term (product name, code identifier) that must come through unchanged. */
+  doNotTranslate: boolean;
+  /** When false, "linguacraft" in the source also matches the term "LinguaCraft". */
+  caseSensitive: boolean;
+}
+
+export type NewGlossaryEntry = Omit<GlossaryEntry, 'id'>;
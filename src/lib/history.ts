@@ -0,0 +1,96 @@
+/**
+ * @fileOverview history.ts - Persistence and search for the translation history. Entries live in
+ * the `translationHistory` IndexedDB store, newest first, capped at HISTORY_LIMIT.
+ */
+import type { LanguageCode, SourceLanguageCode } from '@/lib/languages';
+import { STORES, requestToPromise, withStore } from '@/lib/idb';
+
+export const HISTORY_LIMIT = 500;
+
+export interface HistoryEnhancement {
+  /** The instruction sent to `/api/enhance-text`. */
+  instruction: string;
+  /** The enhanced text that was applied to the translation panel. */
+  text: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  sourceText: string;
+  /** `auto` when the language could not be detected. */
+  sourceLanguage: SourceLanguageCode;
+  targetLanguage: LanguageCode;
+  translatedText: string;
+  /** Epoch milliseconds of the translation. */
+  createdAt: number;
+  enhancement?: HistoryEnhancement;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt'>;
+
+export interface HistoryFilter {
+  /** Free-text query; every word must appear in the source, translation or enhancement. */
+  query: string;
+  /** Inclusive lower bound, epoch milliseconds. */
+  from?: number;
+  /** Inclusive upper bound, epoch milliseconds. */
+  to?: number;
+}
+
+/** Loads all entries, newest first. */
+export function loadHistoryEntries(): Promise<HistoryEntry[]> {
+  return withStore(STORES.translationHistory, 'readonly', async (store) => {
+    const entries = await requestToPromise(store.index('createdAt').getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.reverse();
+  });
+}
+
+/** Stores a new entry and prunes the oldest ones beyond HISTORY_LIMIT. */
+export function addHistoryEntry(input: NewHistoryEntry): Promise<HistoryEntry> {
+  const entry: HistoryEntry = { ...input, id: crypto.randomUUID(), createdAt: Date.now() };
+  return withStore(STORES.translationHistory, 'readwrite', async (store) => {
+    await requestToPromise(store.put(entry));
+    const keys = await requestToPromise(store.index('createdAt').getAllKeys());
+    const excess = keys.length - HISTORY_LIMIT;
+    for (let i = 0; i < excess; i++) {
+      store.delete(keys[i]);
+    }
+    return entry;
+  });
+}
+
+export function updateHistoryEntry(entry: HistoryEntry): Promise<void> {
+  return withStore(STORES.translationHistory, 'readwrite', async (store) => {
+    await requestToPromise(store.put(entry));
+  });
+}
+
+export function deleteHistoryEntry(id: string): Promise<void> {
+  return withStore(STORES.translationHistory, 'readwrite', async (store) => {
+    await requestToPromise(store.delete(id));
+  });
+}
+
+export function clearHistoryEntries(): Promise<void> {
+  return withStore(STORES.translationHistory, 'readwrite', async (store) => {
+    await requestToPromise(store.clear());
+  });
+}
+
+/** Lower-cases and strips diacritics so "viet" matches "Việt". */
+function normalizeForSearch(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/gi, 'd').toLowerCase();
+}
+
+export function filterHistoryEntries(entries: readonly HistoryEntry[], { query, from, to }: HistoryFilter): HistoryEntry[] {
+  const terms = normalizeForSearch(query).split(/\s+/).filter(Boolean);
+  return entries.filter(entry => {
+    if (from !== undefined && entry.createdAt < from) return false;
+    if (to !== undefined && entry.createdAt > to) return false;
+    if (terms.length === 0) return true;
+    const haystack = normalizeForSearch(
+      [entry.sourceText, entry.translatedText, entry.enhancement?.text ?? ''].join('\n')
+    );
+    return terms.every(term => haystack.includes(term));
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileOverview idb.ts - Thin promise wrapper around the app's IndexedDB database. All object
+ * stores are declared here so schema upgrades happen in one place.
+ */
+
+const DB_NAME = 'linguacraft';
+const DB_VERSION = 3;
+
+export const STORES = {
+  translationHistory: 'translationHistory',
+  translationMemory: 'translationMemory',
+  speechCache: 'speechCache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgradeDatabase(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(STORES.translationHistory)) {
+    const historyStore = db.createObjectStore(STORES.translationHistory, { keyPath: 'id' });
+    historyStore.createIndex('createdAt', 'createdAt');
+  }
+  if (!db.objectStoreNames.contains(STORES.translationMemory)) {
+    const memoryStore = db.createObjectStore(STORES.translationMemory, { keyPath: 'id' });
+    memoryStore.createIndex('updatedAt', 'updatedAt');
+  }
+  if (!db.objectStoreNames.contains(STORES.speechCache)) {
+    const speechStore = db.createObjectStore(STORES.speechCache, { keyPath: 'key' });
+    speechStore.createIndex('lastUsedAt', 'lastUsedAt');
+  }
+}
+
+/** Opens (and on first use creates or upgrades) the shared database. */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgradeDatabase(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs `operation` inside a transaction on one store and resolves with its result once the
+ * transaction has committed.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted.'));
+  });
+  // If `operation` fails the transaction aborts too; its error is the one worth reporting.
+  committed.catch(() => {});
+  const result = await operation(transaction.objectStore(storeName));
+  await committed;
+  return result;
+}
@@ -0,0 +1,92 @@
+/**
+ * @fileOverview language-detection.ts - Lightweight client-side guess of the source language, used
+ * by the "Auto-detect" option when the server does not report a detected language of its own.
+ * Non-Latin scripts are told apart by script; Latin text by letters only Vietnamese uses and by
+ * common English, French and Spanish words. When unsure it gives no answer, and callers let the
+ * server detect the language instead of assuming one.
+ */
+import type { LanguageCode } from '@/lib/languages';
+
+const LETTER = /\p{L}/gu;
+const ARABIC_LETTER = /\p{Script=Arabic}/gu;
+const HAN_LETTER = /\p{Script=Han}/gu;
+const KANA_LETTER = /[\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const LATIN_WORD = /[\p{Script=Latin}']+/gu;
+
+// Share of letters a script needs before the text is taken to be in it.
+const SCRIPT_RATIO = 0.5;
+
+// Letters no other supported language uses: ă, ơ, ư, đ, and vowels with the dot-below, hook or
+// tilde tone marks or with a tone stacked on â/ê/ô. Plain acute and grave vowels are left out,
+// as French and Spanish use them too.
+const VIETNAMESE_LETTERS = /[ăằắặẳẵơờớợởỡưừứựửữđạảãấầậẩẫẹẻẽếềệểễịỉĩọỏõốồộổỗụủũỳýỵỷỹ]/i;
+
+// Every marked letter Vietnamese uses, including those it shares with French and Spanish.
+const VIETNAMESE_MARKED_LETTERS = /[àáạảãâầấậẩẫăằắặẳẵèéẹẻẽêềếệểễìíịỉĩòóọỏõôồốộổỗơờớợởỡùúụủũưừứựửữỳýỵỷỹđ]/i;
+
+// Share of words carrying marked letters above which text with Vietnamese-only letters is treated
+// as Vietnamese. Unaccented words like "anh", "em", "con" are common in Vietnamese, so the bar is low.
+const VIETNAMESE_WORD_RATIO = 0.2;
+
+/** Very common words, and letters, that point to one of the Latin-script languages. */
+const LATIN_CUES: { language: LanguageCode; words: ReadonlySet<string>; letters?: RegExp }[] = [
+  {
+    language: 'en',
+    words: new Set(['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'you', 'for', 'was', 'with', 'on', 'are', 'this', 'be', 'have', 'not', 'what', 'i']),
+  },
+  {
+    language: 'fr',
+    words: new Set(['le', 'les', 'des', 'une', 'et', 'est', 'qui', 'pas', 'pour', 'dans', 'avec', 'ce', 'sur', 'au', 'du', 'je', 'vous', 'nous', 'il', 'elle', 'mais', 'où', 'très']),
+    letters: /[çœèêëîïûùÿ]|^[cdjlmnst]'|^qu'/i,
+  },
+  {
+    language: 'es',
+    words: new Set(['el', 'los', 'las', 'del', 'y', 'es', 'por', 'para', 'con', 'una', 'lo', 'como', 'pero', 'está', 'muy', 'yo', 'usted', 'más', 'sí', 'al']),
+    letters: /[ñ¿¡]/i,
+  },
+];
+
+// Cues the best Latin guess needs, and how many more than the runner-up.
+const MIN_LATIN_CUES = 2;
+const MIN_LATIN_MARGIN = 1;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+function detectLatinLanguage(words: string[]): LanguageCode | null {
+  const markedWordCount = words.filter(word => VIETNAMESE_MARKED_LETTERS.test(word)).length;
+  if (words.some(word => VIETNAMESE_LETTERS.test(word)) && markedWordCount / words.length >= VIETNAMESE_WORD_RATIO) {
+    return 'vi';
+  }
+
+  const scores = LATIN_CUES
+    .map(({ language, words: cueWords, letters }) => ({
+      language,
+      score: words.filter(word => cueWords.has(word) || !!letters?.test(word)).length,
+    }))
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  return best.score >= MIN_LATIN_CUES && best.score - runnerUp.score >= MIN_LATIN_MARGIN ? best.language : null;
+}
+
+/**
+ * Guesses the language of `text`.
+ * @returns The detected language code, or null when there is nothing to go on or the guess would
+ * be unsure.
+ */
+export function detectLanguage(text: string): LanguageCode | null {
+  const letterCount = countMatches(text, LETTER);
+  if (letterCount === 0) return null;
+
+  if (countMatches(text, ARABIC_LETTER) / letterCount >= SCRIPT_RATIO) return 'ar';
+  const kanaCount = countMatches(text, KANA_LETTER);
+  const hanCount = countMatches(text, HAN_LETTER);
+  // Japanese mixes kanji with kana; Chinese has no kana at all.
+  if (kanaCount > 0 && (kanaCount + hanCount) / letterCount >= SCRIPT_RATIO) return 'ja';
+  if (hanCount / letterCount >= SCRIPT_RATIO) return 'zh-CN';
+
+  const words = text.toLowerCase().match(LATIN_WORD);
+  if (!words || words.length === 0) return null;
+  return detectLatinLanguage(words);
+}
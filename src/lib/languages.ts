@@ -0,0 +1,122 @@
+/**
+ * @fileOverview languages.ts - The language catalogue. Every language the app knows about is
+ * described here once, with its display names, script, text direction, regional variants and
+ * which backend features it supports. UI elements read capabilities from here instead of
+ * discovering unsupported languages through API errors.
+ */
+
+/** Backend features that may or may not be available for a given language. */
+export type LanguageCapability = 'translate' | 'tts' | 'stt' | 'wordDetails';
+
+export interface LanguageDefinition<TCode extends string = LanguageCode> {
+  /** BCP-47 tag, sent to the API as-is. */
+  code: TCode;
+  /** English display name. */
+  label: string;
+  /** Name of the language in the language itself. */
+  nativeName: string;
+  /** ISO 15924 script code. */
+  script: string;
+  /** Writing direction, applied to the text panels. */
+  direction: 'ltr' | 'rtl';
+  /** For regional variants (e.g. `en-US`), the tag of the base language they belong to. */
+  baseCode?: TCode;
+  capabilities: Readonly<Record<LanguageCapability, boolean>>;
+}
+
+const FULL_SUPPORT = { translate: true, tts: true, stt: true, wordDetails: true } as const;
+// The speech endpoints are only tuned for English and Vietnamese.
+const TEXT_SUPPORT = { translate: true, tts: false, stt: false, wordDetails: true } as const;
+// Click-a-word lookups split on whitespace, which these scripts do not use between words.
+const TRANSLATE_ONLY = { translate: true, tts: false, stt: false, wordDetails: false } as const;
+
+export const LANGUAGES = [
+  { code: 'en', label: 'English', nativeName: 'English', script: 'Latn', direction: 'ltr', capabilities: FULL_SUPPORT },
+  { code: 'en-US', label: 'English (US)', nativeName: 'English (US)', script: 'Latn', direction: 'ltr', baseCode: 'en', capabilities: FULL_SUPPORT },
+  { code: 'vi', label: 'Vietnamese', nativeName: 'Tiếng Việt', script: 'Latn', direction: 'ltr', capabilities: FULL_SUPPORT },
+  { code: 'fr', label: 'French', nativeName: 'Français', script: 'Latn', direction: 'ltr', capabilities: TEXT_SUPPORT },
+  { code: 'es', label: 'Spanish', nativeName: 'Español', script: 'Latn', direction: 'ltr', capabilities: TEXT_SUPPORT },
+  { code: 'ar', label: 'Arabic', nativeName: 'العربية', script: 'Arab', direction: 'rtl', capabilities: TEXT_SUPPORT },
+  { code: 'ja', label: 'Japanese', nativeName: '日本語', script: 'Jpan', direction: 'ltr', capabilities: TRANSLATE_ONLY },
+  { code: 'zh-CN', label: 'Chinese (Simplified)', nativeName: '简体中文', script: 'Hans', direction: 'ltr', capabilities: TRANSLATE_ONLY },
+] as const satisfies readonly LanguageDefinition<string>[];
+
+export type LanguageCode = typeof LANGUAGES[number]['code'];
+export type Language = LanguageDefinition;
+
+const LANGUAGE_LIST: readonly Language[] = LANGUAGES;
+
+/**
+ * Pseudo-language offered only by the source selector. It is resolved to a real code on the client
+ * when the guess is sure, and otherwise sent as-is so the server detects the language.
+ */
+export const AUTO_DETECT_LANGUAGE = { value: 'auto', label: 'Auto-detect' } as const;
+
+export type SourceLanguageCode = LanguageCode | typeof AUTO_DETECT_LANGUAGE['value'];
+
+/** Locale for splitting source text into sentences; the runtime default while the language is unknown. */
+export function getSourceLocale(language: SourceLanguageCode): LanguageCode | undefined {
+  return language === AUTO_DETECT_LANGUAGE.value ? undefined : language;
+}
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return LANGUAGE_LIST.some(lang => lang.code === value);
+}
+
+export function getLanguage(code: LanguageCode): Language {
+  // Every LanguageCode comes from LANGUAGES, so the lookup cannot miss.
+  return LANGUAGE_LIST.find(lang => lang.code === code)!;
+}
+
+export function getLanguageLabel(code: LanguageCode): string {
+  return getLanguage(code).label;
+}
+
+/** Like `getLanguageLabel`, also naming the "Auto-detect" pseudo-language. */
+export function getSourceLanguageLabel(code: SourceLanguageCode): string {
+  return code === AUTO_DETECT_LANGUAGE.value ? AUTO_DETECT_LANGUAGE.label : getLanguageLabel(code);
+}
+
+export function hasLanguageCapability(code: LanguageCode, capability: LanguageCapability): boolean {
+  return getLanguage(code).capabilities[capability];
+}
+
+/** Languages offering the given capability, in catalogue order. */
+export function getLanguagesWith(capability: LanguageCapability): Language[] {
+  return LANGUAGE_LIST.filter(lang => lang.capabilities[capability]);
+}
+
+export interface LanguageGroup {
+  base: Language;
+  variants: Language[];
+}
+
+/**
+ * Groups regional variants under their base language, keeping catalogue order. A variant whose
+ * base is not in `languages` becomes a group of its own.
+ */
+export function groupLanguages(languages: readonly Language[]): LanguageGroup[] {
+  const groups: LanguageGroup[] = [];
+  const groupByBase = new Map<string, LanguageGroup>();
+
+  languages.forEach(lang => {
+    if (!lang.baseCode) {
+      const group: LanguageGroup = { base: lang, variants: [] };
+      groups.push(group);
+      groupByBase.set(lang.code, group);
+    }
+  });
+  languages.forEach(lang => {
+    if (!lang.baseCode) return;
+    const group = groupByBase.get(lang.baseCode);
+    if (group) {
+      group.variants.push(lang);
+    } else {
+      groups.push({ base: lang, variants: [] });
+    }
+  });
+
+  // Keep orphan variants where they appeared in the catalogue.
+  const order = new Map(languages.map((lang, index) => [lang.code, index]));
+  return groups.sort((a, b) => order.get(a.base.code)! - order.get(b.base.code)!);
+}
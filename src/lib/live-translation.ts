@@ -0,0 +1,49 @@
+/**
+ * @fileOverview live-translation.ts - Sentence bookkeeping for translating while typing. The text
+ * is split into sentences and only those without a known translation are sent, so an edit in one
+ * sentence does not re-translate the rest.
+ */
+
+import type { SentencePart } from '@/lib/sentence-alignment';
+import { splitSentenceParts } from '@/lib/sentence-alignment';
+
+/** Pause in typing before a live translation starts. */
+export const LIVE_TRANSLATE_DEBOUNCE_MS = 700;
+/** Live translations allowed in a burst, and how quickly that allowance comes back. */
+export const LIVE_TRANSLATE_BURST = 3;
+export const LIVE_TRANSLATE_REFILL_MS = 1500;
+/** Remembered sentence translations before the memo starts over. */
+const MAX_KNOWN_SENTENCES = 500;
+
+export interface IncrementalTranslationPlan {
+  parts: SentencePart[];
+  /** Distinct sentences with no known translation yet, in text order. */
+  pendingSentences: string[];
+}
+
+/** Splits `text` into sentences and lists the ones missing from `knownTranslations`. */
+export function planIncrementalTranslation(
+  text: string,
+  locale: string | undefined,
+  knownTranslations: ReadonlyMap<string, string>
+): IncrementalTranslationPlan {
+  const parts = splitSentenceParts(text, locale);
+  const pendingSentences = Array.from(new Set(
+    parts.map(part => part.text).filter(sentence => !knownTranslations.has(sentence))
+  ));
+  return { parts, pendingSentences };
+}
+
+/** Puts the translation together from per-sentence translations, keeping the source's spacing and line breaks. */
+export function joinIncrementalTranslation(parts: readonly SentencePart[], knownTranslations: ReadonlyMap<string, string>): string {
+  return parts
+    .map(part => (knownTranslations.get(part.text) ?? '') + part.trailing)
+    .join('')
+    .trim();
+}
+
+/** Records a sentence translation, dropping everything once the memo grows past its cap. */
+export function rememberSentenceTranslation(knownTranslations: Map<string, string>, sentence: string, translation: string) {
+  if (knownTranslations.size >= MAX_KNOWN_SENTENCES) knownTranslations.clear();
+  knownTranslations.set(sentence, translation.trim());
+}
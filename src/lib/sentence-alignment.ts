@@ -0,0 +1,104 @@
+/**
+ * @fileOverview sentence-alignment.ts - Pairs the sentences of a source text with the sentences
+ * of its translation for the aligned bilingual view, and puts the translation back together after
+ * a single segment has been replaced.
+ */
+import type { LanguageCode } from '@/lib/languages';
+import { splitSentences } from '@/lib/text-segmentation';
+
+/** One source sentence and the part of the translation that corresponds to it. */
+export interface AlignedSegment {
+  sourceText: string;
+  /** Empty when no translated sentence could be attributed to this source sentence. */
+  targetText: string;
+  /** Whitespace after each side, kept so a rebuilt translation keeps its line breaks. */
+  sourceTrailing: string;
+  targetTrailing: string;
+}
+
+export interface SentencePart {
+  text: string;
+  trailing: string;
+}
+
+/** Splits into trimmed sentences, moving any whitespace between them onto the preceding one. */
+export function splitSentenceParts(text: string, locale?: string): SentencePart[] {
+  const parts: SentencePart[] = [];
+  for (const sentence of splitSentences(text, locale)) {
+    const trimmed = sentence.trim();
+    const leading = sentence.slice(0, sentence.length - sentence.trimStart().length);
+    const previous = parts[parts.length - 1];
+    if (previous) previous.trailing += trimmed ? leading : sentence;
+    if (trimmed) parts.push({ text: trimmed, trailing: sentence.slice(sentence.trimEnd().length) });
+  }
+  return parts;
+}
+
+/**
+ * Splits both texts into sentences and pairs them. Equal sentence counts pair one-to-one;
+ * otherwise each translated sentence goes to the source sentence at the same relative position
+ * (by character offset), so a merged or split sentence stays in roughly the right row.
+ */
+export function alignSentences(
+  sourceText: string,
+  targetText: string,
+  sourceLanguage: LanguageCode,
+  targetLanguage: LanguageCode
+): AlignedSegment[] {
+  const sourceParts = splitSentenceParts(sourceText, sourceLanguage);
+  const targetParts = splitSentenceParts(targetText, targetLanguage);
+  if (sourceParts.length === 0) return [];
+
+  const groups: SentencePart[][] = sourceParts.map(() => []);
+  if (sourceParts.length === targetParts.length) {
+    targetParts.forEach((part, index) => groups[index].push(part));
+  } else {
+    const sourceEnds: number[] = [];
+    let sourceLength = 0;
+    for (const part of sourceParts) {
+      sourceLength += part.text.length + part.trailing.length;
+      sourceEnds.push(sourceLength);
+    }
+    const targetLength = targetParts.reduce((total, part) => total + part.text.length + part.trailing.length, 0);
+    let targetOffset = 0;
+    for (const part of targetParts) {
+      const position = (targetOffset / targetLength) * sourceLength;
+      targetOffset += part.text.length + part.trailing.length;
+      const index = sourceEnds.findIndex(end => position < end);
+      groups[index === -1 ? groups.length - 1 : index].push(part);
+    }
+  }
+
+  return sourceParts.map((part, index) => {
+    const group = groups[index];
+    return {
+      sourceText: part.text,
+      targetText: group.map((targetPart, partIndex) =>
+        partIndex === group.length - 1 ? targetPart.text : targetPart.text + targetPart.trailing
+      ).join(''),
+      sourceTrailing: part.trailing,
+      targetTrailing: group.length > 0 ? group[group.length - 1].trailing : '',
+    };
+  });
+}
+
+/** Joins the translated side of `segments` back into one text, skipping empty segments. */
+export function joinAlignedTranslation(segments: readonly AlignedSegment[]): string {
+  const translated = segments.filter(segment => segment.targetText);
+  return translated
+    .map((segment, index) => index === translated.length - 1
+      ? segment.targetText
+      : segment.targetText + (segment.targetTrailing || segment.sourceTrailing || ' '))
+    .join('');
+}
+
+/** Returns the translation with the segment at `index` replaced by `targetText`. */
+export function replaceAlignedSegment(
+  segments: readonly AlignedSegment[],
+  index: number,
+  targetText: string
+): string {
+  return joinAlignedTranslation(
+    segments.map((segment, segmentIndex) => segmentIndex === index ? { ...segment, targetText: targetText.trim() } : segment)
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileOverview speech-cache.ts - Cache of text-to-speech results in the `speechCache` IndexedDB
+ * store, keyed by text, language and voice, so speaking the same text again needs no request.
+ * The least recently used clips are dropped once the cache outgrows its entry or size budget.
+ */
+import type { LanguageCode } from '@/lib/languages';
+import type { TextToSpeechOutput } from '@/lib/api';
+import { STORES, requestToPromise, withStore } from '@/lib/idb';
+
+export const SPEECH_CACHE_MAX_ENTRIES = 200;
+export const SPEECH_CACHE_MAX_BYTES = 20 * 1024 * 1024;
+
+interface SpeechCacheEntry {
+  key: string;
+  output: TextToSpeechOutput;
+  /** Approximate stored size; audio data URIs are ASCII, so their length in bytes. */
+  size: number;
+  /** Epoch milliseconds. */
+  lastUsedAt: number;
+}
+
+export interface SpeechCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+export function makeSpeechCacheKey(text: string, language: LanguageCode, voice?: string): string {
+  return `${language}|${voice ?? ''}|${text.trim()}`;
+}
+
+/** Returns the cached result for `key`, marking it as recently used, or null on a miss. */
+export function getCachedSpeech(key: string): Promise<TextToSpeechOutput | null> {
+  return withStore(STORES.speechCache, 'readwrite', async (store) => {
+    const entry = await requestToPromise(store.get(key) as IDBRequest<SpeechCacheEntry | undefined>);
+    if (!entry) return null;
+    store.put({ ...entry, lastUsedAt: Date.now() });
+    return entry.output;
+  });
+}
+
+/** Stores a result, then evicts the least recently used entries beyond the cache's budget. */
+export function cacheSpeech(key: string, output: TextToSpeechOutput): Promise<void> {
+  const entry: SpeechCacheEntry = { key, output, size: output.audioDataUri.length, lastUsedAt: Date.now() };
+  return withStore(STORES.speechCache, 'readwrite', async (store) => {
+    await requestToPromise(store.put(entry));
+    let entries = 0;
+    let bytes = 0;
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index('lastUsedAt').openCursor(null, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        const { size } = cursor.value as SpeechCacheEntry;
+        entries++;
+        bytes += size;
+        if (entries > SPEECH_CACHE_MAX_ENTRIES || bytes > SPEECH_CACHE_MAX_BYTES) cursor.delete();
+        cursor.continue();
+      };
+    });
+  });
+}
+
+export function getSpeechCacheStats(): Promise<SpeechCacheStats> {
+  return withStore(STORES.speechCache, 'readonly', async (store) => {
+    const entries = await requestToPromise(store.getAll() as IDBRequest<SpeechCacheEntry[]>);
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+  });
+}
+
+export function clearSpeechCache(): Promise<void> {
+  return withStore(STORES.speechCache, 'readwrite', async (store) => {
+    await requestToPromise(store.clear());
+  });
+}
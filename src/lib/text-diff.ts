@@ -0,0 +1,110 @@
+/**
+ * @fileOverview text-diff.ts - Word-level diffing and similarity, used to show what was changed by
+ * hand in a post-edited translation and how far a back-translation strays from the original.
+ */
+
+export type TextDiffPartType = 'equal' | 'insert' | 'delete';
+
+export interface TextDiffPart {
+  type: TextDiffPartType;
+  text: string;
+}
+
+/** Above this many cells the LCS table gets too large; the changed middle is then shown as one replacement. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+/** Appends a part, merging it into the previous one when both have the same type. */
+function pushPart(parts: TextDiffPart[], type: TextDiffPartType, text: string) {
+  if (!text) return;
+  const previous = parts[parts.length - 1];
+  if (previous?.type === type) {
+    previous.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Diffs two texts word by word (whitespace runs are tokens too), so joining the `equal` and
+ * `delete` parts gives `before` and joining the `equal` and `insert` parts gives `after`.
+ */
+export function diffWords(before: string, after: string): TextDiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const parts: TextDiffPart[] = [];
+  pushPart(parts, 'equal', a.slice(0, prefix).join(''));
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const rows = middleA.length;
+  const columns = middleB.length;
+
+  if ((rows + 1) * (columns + 1) > MAX_DIFF_CELLS) {
+    pushPart(parts, 'delete', middleA.join(''));
+    pushPart(parts, 'insert', middleB.join(''));
+  } else {
+    // lengths[i][j] = LCS length of middleA[i..] and middleB[j..], stored row-major.
+    const width = columns + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * width + j] = middleA[i] === middleB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (middleA[i] === middleB[j]) {
+        pushPart(parts, 'equal', middleA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushPart(parts, 'delete', middleA[i++]);
+      } else {
+        pushPart(parts, 'insert', middleB[j++]);
+      }
+    }
+    pushPart(parts, 'delete', middleA.slice(i).join(''));
+    pushPart(parts, 'insert', middleB.slice(j).join(''));
+  }
+
+  pushPart(parts, 'equal', a.slice(a.length - suffix).join(''));
+  return parts;
+}
+
+function countWordsOfType(parts: readonly TextDiffPart[], type: TextDiffPartType): number {
+  return parts
+    .filter(part => part.type === type)
+    .reduce((total, part) => total + (part.text.match(/[^\s]+/g)?.length ?? 0), 0);
+}
+
+/** Counts the words added and removed by a diff, ignoring whitespace-only changes. */
+export function countChangedWords(parts: readonly TextDiffPart[]): { inserted: number; deleted: number } {
+  return { inserted: countWordsOfType(parts, 'insert'), deleted: countWordsOfType(parts, 'delete') };
+}
+
+/**
+ * Word overlap of two texts from 0 to 1: twice the words they share in order over the total
+ * word count, ignoring case and punctuation. Two empty texts are identical.
+ */
+export function wordSimilarity(a: string, b: string): number {
+  const normalize = (text: string) => text.toLocaleLowerCase().replace(/\p{P}+/gu, ' ');
+  const parts = diffWords(normalize(a), normalize(b));
+  const shared = countWordsOfType(parts, 'equal');
+  const total = 2 * shared + countWordsOfType(parts, 'insert') + countWordsOfType(parts, 'delete');
+  return total === 0 ? 1 : (2 * shared) / total;
+}
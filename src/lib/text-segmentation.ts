@@ -0,0 +1,67 @@
+/**
+ * @fileOverview text-segmentation.ts - Word counting and sentence splitting shared by everything
+ * that has to keep text under the translation word limit.
+ */
+
+/** Counts whitespace-delimited words, matching the word counter shown under the source panel. */
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed === '' ? 0 : trimmed.split(/\s+/).length;
+}
+
+const SENTENCE_FALLBACK = /[^.!?。！？\n]+(?:[.!?。！？]+["'”’)\]]*|\n+|$)\s*/g;
+
+// `Intl.Segmenter` is ES2022 and not in this project's lib typings.
+type SentenceSegmenter = { segment(input: string): Iterable<{ segment: string }> };
+type SegmenterConstructor = new (locale?: string, options?: { granularity: 'sentence' }) => SentenceSegmenter;
+const IntlSegmenter = typeof Intl !== 'undefined'
+  ? (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter
+  : undefined;
+
+/**
+ * Splits text into sentences, keeping each sentence's trailing whitespace so that joining the
+ * result reproduces the input exactly. Uses `Intl.Segmenter` where the browser has it.
+ */
+export function splitSentences(text: string, locale?: string): string[] {
+  if (!text) return [];
+  if (IntlSegmenter) {
+    const segmenter = new IntlSegmenter(locale, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(text), segment => segment.segment);
+  }
+  return text.match(SENTENCE_FALLBACK) ?? [text];
+}
+
+/**
+ * Splits one over-long piece of text into parts of at most `wordLimit` words, breaking between
+ * sentences where possible and between words only when a single sentence is itself too long.
+ */
+export function splitByWordLimit(text: string, wordLimit: number, locale?: string): string[] {
+  if (countWords(text) <= wordLimit) return [text];
+
+  const parts: string[] = [];
+  let current = '';
+  let currentWordCount = 0;
+  const flush = () => {
+    if (current) parts.push(current);
+    current = '';
+    currentWordCount = 0;
+  };
+
+  for (const sentence of splitSentences(text, locale)) {
+    const sentenceWordCount = countWords(sentence);
+    if (sentenceWordCount > wordLimit) {
+      flush();
+      // Keep whitespace attached to the preceding word so the pieces still join losslessly.
+      const words = sentence.match(/\s*\S+\s*/g) ?? [];
+      for (let i = 0; i < words.length; i += wordLimit) {
+        parts.push(words.slice(i, i + wordLimit).join(''));
+      }
+      continue;
+    }
+    if (currentWordCount + sentenceWordCount > wordLimit) flush();
+    current += sentence;
+    currentWordCount += sentenceWordCount;
+  }
+  flush();
+  return parts;
+}
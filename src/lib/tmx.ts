@@ -0,0 +1,84 @@
+/**
+ * @fileOverview tmx.ts - Import and export of the translation memory as TMX 1.4, the standard
+ * exchange format understood by CAT tools.
+ */
+import { isLanguageCode } from '@/lib/languages';
+import type { NewTranslationMemoryEntry, TranslationMemoryEntry } from '@/lib/translation-memory';
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** TMX dates are ISO 8601 basic format in UTC, e.g. 20250101T120000Z. */
+function toTmxDate(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function fromTmxDate(value: string | null): number | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute, second);
+}
+
+export function exportTmx(entries: readonly TranslationMemoryEntry[]): string {
+  const units = entries.map(entry => [
+    `    <tu creationdate="${toTmxDate(entry.createdAt)}" changedate="${toTmxDate(entry.updatedAt)}" srclang="${entry.sourceLanguage}">`,
+    `      <tuv xml:lang="${entry.sourceLanguage}"><seg>${escapeXml(entry.sourceText)}</seg></tuv>`,
+    `      <tuv xml:lang="${entry.targetLanguage}"><seg>${escapeXml(entry.targetText)}</seg></tuv>`,
+    '    </tu>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    '  <header creationtool="LinguaCraft" creationtoolversion="1.0" segtype="sentence" o-tmf="LinguaCraft" adminlang="en" srclang="*all*" datatype="plaintext"/>',
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Reads translation units from TMX. The source variant is the one named by the unit's (or
+ * header's) `srclang`, falling back to the first variant; every other variant in a supported
+ * language becomes one entry. Inline markup inside `<seg>` is reduced to its text.
+ */
+export function parseTmx(xml: string): NewTranslationMemoryEntry[] {
+  const xmlDocument = new DOMParser().parseFromString(xml, 'application/xml');
+  if (xmlDocument.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The TMX file is not valid XML.');
+  }
+  const headerSourceLanguage = xmlDocument.getElementsByTagName('header')[0]?.getAttribute('srclang');
+
+  return Array.from(xmlDocument.getElementsByTagName('tu')).flatMap(unit => {
+    const variants = Array.from(unit.getElementsByTagName('tuv')).flatMap(variant => {
+      const language = variant.getAttributeNS(XML_NS, 'lang') || variant.getAttribute('xml:lang') || variant.getAttribute('lang');
+      const text = variant.getElementsByTagName('seg')[0]?.textContent?.trim();
+      return isLanguageCode(language) && text ? [{ language, text }] : [];
+    });
+    const sourceLanguage = unit.getAttribute('srclang') ?? headerSourceLanguage;
+    const source = variants.find(variant => variant.language === sourceLanguage) ?? variants[0];
+    if (!source) return [];
+
+    const createdAt = fromTmxDate(unit.getAttribute('creationdate'));
+    return variants
+      .filter(variant => variant.language !== source.language)
+      .map(target => ({
+        sourceLanguage: source.language,
+        targetLanguage: target.language,
+        sourceText: source.text,
+        targetText: target.text,
+        origin: 'import' as const,
+        createdAt,
+      }));
+  });
+}
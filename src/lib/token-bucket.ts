@@ -0,0 +1,43 @@
+/**
+ * @fileOverview token-bucket.ts - A token bucket rate limiter. It allows short bursts of up to
+ * `capacity` actions and then one action per refill interval, instead of a fixed lockout after
+ * every action.
+ */
+
+export interface TokenBucket {
+  /** Takes a token if one is available and reports whether it did. */
+  tryTake(): boolean;
+  /** Milliseconds until the next token becomes available; 0 when one is available now. */
+  msUntilNextToken(): number;
+}
+
+/**
+ * Creates a bucket that starts full with `capacity` tokens and gains one token every
+ * `refillIntervalMs`, never holding more than `capacity`.
+ */
+export function createTokenBucket(capacity: number, refillIntervalMs: number, now: () => number = Date.now): TokenBucket {
+  let tokens = capacity;
+  let lastRefill = now();
+
+  const refill = () => {
+    const current = now();
+    const gained = Math.floor((current - lastRefill) / refillIntervalMs);
+    if (gained <= 0) return;
+    tokens = Math.min(capacity, tokens + gained);
+    // A full bucket does not bank time towards the next token.
+    lastRefill = tokens === capacity ? current : lastRefill + gained * refillIntervalMs;
+  };
+
+  return {
+    tryTake() {
+      refill();
+      if (tokens < 1) return false;
+      tokens--;
+      return true;
+    },
+    msUntilNextToken() {
+      refill();
+      return tokens >= 1 ? 0 : Math.max(0, lastRefill + refillIntervalMs - now());
+    },
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * @fileOverview translation-memory.ts - Sentence-level translation memory. Confirmed translations
+ * are split into aligned source/target sentence pairs and kept in the `translationMemory`
+ * IndexedDB store; new source text is looked up sentence by sentence with fuzzy matching.
+ */
+import type { LanguageCode } from '@/lib/languages';
+import { STORES, requestToPromise, withStore } from '@/lib/idb';
+import { splitSentences } from '@/lib/text-segmentation';
+
+export const TRANSLATION_MEMORY_LIMIT = 5000;
+/** Similarity (0–1) a stored sentence needs before it is suggested. */
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.75;
+/** Text whose sentences cannot be aligned is stored whole, but only up to this length. */
+const MAX_UNALIGNED_LENGTH = 1000;
+
+export type TranslationMemoryOrigin = 'translation' | 'enhancement' | 'edit' | 'import';
+
+export interface TranslationMemoryEntry {
+  /** Derived from the language pair and normalized source, so storing a sentence again updates it. */
+  id: string;
+  sourceLanguage: LanguageCode;
+  targetLanguage: LanguageCode;
+  sourceText: string;
+  targetText: string;
+  origin: TranslationMemoryOrigin;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewTranslationMemoryEntry = Pick<
+  TranslationMemoryEntry,
+  'sourceLanguage' | 'targetLanguage' | 'sourceText' | 'targetText' | 'origin'
+> & { createdAt?: number };
+
+/** A sentence of the queried text together with its best memory match, if any. */
+export interface TranslationMemorySegment {
+  text: string;
+  /** Whitespace after the sentence, kept so accepted matches can be joined like the source. */
+  trailing: string;
+  match: { entry: TranslationMemoryEntry; similarity: number } | null;
+}
+
+function normalizeSegment(text: string): string {
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function makeTranslationMemoryId(sourceLanguage: LanguageCode, targetLanguage: LanguageCode, sourceText: string): string {
+  return `${sourceLanguage}|${targetLanguage}|${normalizeSegment(sourceText)}`;
+}
+
+const toSentences = (text: string, locale: string) =>
+  splitSentences(text, locale).map(sentence => sentence.trim()).filter(Boolean);
+
+/**
+ * Aligns a confirmed translation into sentence pairs. Sentences pair up one-to-one when both
+ * sides split into the same number of sentences; otherwise the whole text is one pair.
+ */
+export function alignSentencePairs(
+  sourceText: string,
+  targetText: string,
+  sourceLanguage: LanguageCode,
+  targetLanguage: LanguageCode
+): { sourceText: string; targetText: string }[] {
+  const sourceSentences = toSentences(sourceText, sourceLanguage);
+  const targetSentences = toSentences(targetText, targetLanguage);
+  if (sourceSentences.length > 0 && sourceSentences.length === targetSentences.length) {
+    return sourceSentences.map((sentence, index) => ({ sourceText: sentence, targetText: targetSentences[index] }));
+  }
+  if (!sourceText.trim() || !targetText.trim() || sourceText.length > MAX_UNALIGNED_LENGTH) return [];
+  return [{ sourceText: sourceText.trim(), targetText: targetText.trim() }];
+}
+
+/** Levenshtein distance, giving up (returning `maxDistance + 1`) once it cannot stay within bounds. */
+function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two sentences from 0 to 1: one minus the edit distance over the longer length,
+ * compared case- and whitespace-insensitively. Returns 0 early when below `threshold`.
+ */
+export function sentenceSimilarity(a: string, b: string, threshold = 0): number {
+  const left = normalizeSegment(a);
+  const right = normalizeSegment(b);
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 1;
+  const maxDistance = Math.floor(longest * (1 - threshold));
+  const distance = boundedEditDistance(left, right, maxDistance);
+  return distance > maxDistance ? 0 : 1 - distance / longest;
+}
+
+/**
+ * Splits `text` into sentences and finds the most similar stored sentence for each, among the
+ * entries for the given language pair that reach `threshold`.
+ */
+export function findFuzzyMatches(
+  text: string,
+  entries: readonly TranslationMemoryEntry[],
+  sourceLanguage: LanguageCode,
+  targetLanguage: LanguageCode,
+  threshold: number
+): TranslationMemorySegment[] {
+  const candidates = entries.filter(entry => entry.sourceLanguage === sourceLanguage && entry.targetLanguage === targetLanguage);
+  return splitSentences(text, sourceLanguage)
+    .filter(sentence => sentence.trim())
+    .map(sentence => {
+      const trimmed = sentence.trim();
+      let match: TranslationMemorySegment['match'] = null;
+      for (const entry of candidates) {
+        const similarity = sentenceSimilarity(trimmed, entry.sourceText, Math.max(threshold, match?.similarity ?? 0));
+        if (similarity >= threshold && similarity > (match?.similarity ?? 0)) {
+          match = { entry, similarity };
+          if (similarity === 1) break;
+        }
+      }
+      return { text: trimmed, trailing: sentence.slice(sentence.trimEnd().length), match };
+    });
+}
+
+/** Loads all entries, most recently updated first. */
+export function loadTranslationMemory(): Promise<TranslationMemoryEntry[]> {
+  return withStore(STORES.translationMemory, 'readonly', async (store) => {
+    const entries = await requestToPromise(store.index('updatedAt').getAll() as IDBRequest<TranslationMemoryEntry[]>);
+    return entries.reverse();
+  });
+}
+
+/**
+ * Stores entries, replacing any existing entry for the same source sentence and pair, and prunes
+ * the least recently updated ones beyond TRANSLATION_MEMORY_LIMIT. Resolves with the stored entries.
+ */
+export function saveTranslationMemoryEntries(inputs: NewTranslationMemoryEntry[]): Promise<TranslationMemoryEntry[]> {
+  const now = Date.now();
+  return withStore(STORES.translationMemory, 'readwrite', async (store) => {
+    const saved: TranslationMemoryEntry[] = [];
+    for (const input of inputs) {
+      const id = makeTranslationMemoryId(input.sourceLanguage, input.targetLanguage, input.sourceText);
+      const existing = await requestToPromise(store.get(id) as IDBRequest<TranslationMemoryEntry | undefined>);
+      const entry: TranslationMemoryEntry = {
+        id,
+        sourceLanguage: input.sourceLanguage,
+        targetLanguage: input.targetLanguage,
+        sourceText: input.sourceText,
+        targetText: input.targetText,
+        origin: input.origin,
+        createdAt: existing?.createdAt ?? input.createdAt ?? now,
+        updatedAt: now,
+      };
+      store.put(entry);
+      saved.push(entry);
+    }
+    const keys = await requestToPromise(store.index('updatedAt').getAllKeys());
+    const excess = keys.length - TRANSLATION_MEMORY_LIMIT;
+    for (let i = 0; i < excess; i++) {
+      store.delete(keys[i]);
+    }
+    return saved;
+  });
+}
+
+export function deleteTranslationMemoryEntry(id: string): Promise<void> {
+  return withStore(STORES.translationMemory, 'readwrite', async (store) => {
+    await requestToPromise(store.delete(id));
+  });
+}
+
+export function clearTranslationMemory(): Promise<void> {
+  return withStore(STORES.translationMemory, 'readwrite', async (store) => {
+    await requestToPromise(store.clear());
+  });
+}
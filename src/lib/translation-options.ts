@@ -0,0 +1,82 @@
+/**
+ * @fileOverview translation-options.ts - Formality, domain and Vietnamese pronoun options sent
+ * with translation requests, with their display labels and how they map onto the request body
+ * and the translation cache key.
+ */
+
+import type { TranslateTextInput, TranslationDomain, TranslationFormality, VietnamesePronounPreference } from '@/lib/api';
+import type { LanguageCode } from '@/lib/languages';
+import { getLanguage } from '@/lib/languages';
+
+/** Options for one language pair; `'default'` leaves the choice to the model and is not sent. */
+export interface TranslationOptions {
+  formality: TranslationFormality | 'default';
+  domain: TranslationDomain | 'general';
+  vietnamesePronouns: VietnamesePronounPreference | 'default';
+}
+
+/** The request fields the options turn into. */
+export type TranslationRequestOptions = Pick<TranslateTextInput, 'formality' | 'domain' | 'pronounPreference'>;
+
+export const DEFAULT_TRANSLATION_OPTIONS: TranslationOptions = {
+  formality: 'default',
+  domain: 'general',
+  vietnamesePronouns: 'default',
+};
+
+export const FORMALITY_OPTIONS: { value: TranslationOptions['formality']; label: string }[] = [
+  { value: 'default', label: 'Automatic' },
+  { value: 'formal', label: 'Formal' },
+  { value: 'informal', label: 'Informal' },
+];
+
+export const DOMAIN_OPTIONS: { value: TranslationOptions['domain']; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'legal', label: 'Legal' },
+  { value: 'medical', label: 'Medical' },
+  { value: 'software-ui', label: 'Software UI' },
+  { value: 'marketing', label: 'Marketing' },
+];
+
+export const VIETNAMESE_PRONOUN_OPTIONS: { value: TranslationOptions['vietnamesePronouns']; label: string; description?: string }[] = [
+  { value: 'default', label: 'Automatic' },
+  { value: 'toi-ban', label: 'tôi / bạn', description: 'Neutral' },
+  { value: 'em-anh-chi', label: 'em / anh, chị', description: 'Polite, speaker is younger' },
+  { value: 'minh-cau', label: 'mình / cậu', description: 'Casual, between friends' },
+  { value: 'chung-toi-quy-khach', label: 'chúng tôi / quý khách', description: 'Business to customer' },
+];
+
+/** True for Vietnamese and its regional variants, the only targets the pronoun option applies to. */
+export function usesVietnamesePronouns(targetLanguage: LanguageCode): boolean {
+  const language = getLanguage(targetLanguage);
+  return (language.baseCode ?? language.code) === 'vi';
+}
+
+/** The options that actually apply when translating into `targetLanguage`, with defaults left out. */
+export function getTranslationRequestOptions(
+  options: TranslationOptions,
+  targetLanguage: LanguageCode
+): TranslationRequestOptions {
+  return {
+    ...(options.formality !== 'default' ? { formality: options.formality } : {}),
+    ...(options.domain !== 'general' ? { domain: options.domain } : {}),
+    ...(options.vietnamesePronouns !== 'default' && usesVietnamesePronouns(targetLanguage)
+      ? { pronounPreference: options.vietnamesePronouns }
+      : {}),
+  };
+}
+
+/** Number of options that differ from the defaults for `targetLanguage`. */
+export function countActiveTranslationOptions(options: TranslationOptions, targetLanguage: LanguageCode): number {
+  return Object.keys(getTranslationRequestOptions(options, targetLanguage)).length;
+}
+
+/**
+ * Cache key variant for the request options, so translations made with different options never
+ * share a cache entry. Empty when every option is at its default.
+ */
+export function getTranslationOptionsCacheVariant(requestOptions: TranslationRequestOptions): string {
+  return Object.entries(requestOptions)
+    .map(([name, value]) => `${name}:${value}`)
+    .join(';');
+}
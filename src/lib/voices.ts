@@ -0,0 +1,106 @@
+/**
+ * @fileOverview voices.ts - Voice, speaking rate and pitch choices for text-to-speech. Voices come
+ * from the server's `/api/voices`, or from the browser's `speechSynthesis` when the server lists
+ * none; a browser voice is spoken locally instead of through `/api/text-to-speech`.
+ */
+
+import type { TextToSpeechInput, TtsVoice } from '@/lib/api';
+import type { LanguageCode } from '@/lib/languages';
+
+export interface VoicePreference {
+  /** Id of the chosen voice, or null for the server default. */
+  voiceId: string | null;
+  /** Speed and pitch relative to the voice's normal ones. */
+  speakingRate: number;
+  pitch: number;
+}
+
+export type VoiceSource = 'server' | 'browser';
+
+export interface VoiceOption {
+  id: string;
+  name: string;
+  source: VoiceSource;
+}
+
+export const DEFAULT_VOICE_PREFERENCE: VoicePreference = { voiceId: null, speakingRate: 1, pitch: 1 };
+export const MIN_SPEAKING_RATE = 0.5;
+export const MAX_SPEAKING_RATE = 2;
+export const MIN_PITCH = 0.5;
+export const MAX_PITCH = 1.5;
+
+/** Browser voice ids are their `voiceURI` behind this prefix, so they never clash with server ids. */
+const BROWSER_VOICE_PREFIX = 'browser:';
+
+export function isBrowserVoiceId(voiceId: string | null): voiceId is string {
+  return !!voiceId && voiceId.startsWith(BROWSER_VOICE_PREFIX);
+}
+
+export function toServerVoiceOption(voice: TtsVoice): VoiceOption {
+  return { id: voice.id, name: voice.gender ? `${voice.name} (${voice.gender})` : voice.name, source: 'server' };
+}
+
+function getSpeechSynthesis(): SpeechSynthesis | null {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null;
+}
+
+/** Whether a browser voice's BCP 47 tag fits `language`: an exact match or the same base language. */
+function matchesLanguage(voiceLang: string, language: LanguageCode): boolean {
+  const tag = voiceLang.replace('_', '-').toLowerCase();
+  const wanted = language.toLowerCase();
+  return tag === wanted || tag.split('-')[0] === wanted.split('-')[0];
+}
+
+/** The browser's voices for `language`; the list may be empty until the browser fires `voiceschanged`. */
+export function getBrowserVoices(language: LanguageCode): SpeechSynthesisVoice[] {
+  return getSpeechSynthesis()?.getVoices().filter(voice => matchesLanguage(voice.lang, language)) ?? [];
+}
+
+export function toBrowserVoiceOption(voice: SpeechSynthesisVoice): VoiceOption {
+  return { id: `${BROWSER_VOICE_PREFIX}${voice.voiceURI}`, name: voice.name, source: 'browser' };
+}
+
+/** Registers a listener for changes to the browser's voice list and returns its unsubscribe function. */
+export function subscribeToBrowserVoices(listener: () => void): () => void {
+  const synthesis = getSpeechSynthesis();
+  synthesis?.addEventListener('voiceschanged', listener);
+  return () => synthesis?.removeEventListener('voiceschanged', listener);
+}
+
+/**
+ * Builds an utterance of `text` with the preferred browser voice, or null when that voice is no
+ * longer installed or the browser has no speech synthesis.
+ */
+export function createBrowserUtterance(
+  text: string,
+  language: LanguageCode,
+  { voiceId, speakingRate, pitch }: VoicePreference
+): SpeechSynthesisUtterance | null {
+  if (!getSpeechSynthesis() || !isBrowserVoiceId(voiceId)) return null;
+  const voiceUri = voiceId.slice(BROWSER_VOICE_PREFIX.length);
+  const voice = getBrowserVoices(language).find(candidate => candidate.voiceURI === voiceUri);
+  if (!voice) return null;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.voice = voice;
+  utterance.lang = voice.lang;
+  utterance.rate = speakingRate;
+  utterance.pitch = pitch;
+  return utterance;
+}
+
+export type VoiceRequestOptions = Pick<TextToSpeechInput, 'voice' | 'speakingRate' | 'pitch'>;
+
+/** The voice fields for `/api/text-to-speech`, leaving out defaults and browser voices. */
+export function getVoiceRequestOptions({ voiceId, speakingRate, pitch }: VoicePreference): VoiceRequestOptions {
+  const options: VoiceRequestOptions = {};
+  if (voiceId && !isBrowserVoiceId(voiceId)) options.voice = voiceId;
+  if (speakingRate !== 1) options.speakingRate = speakingRate;
+  if (pitch !== 1) options.pitch = pitch;
+  return options;
+}
+
+/** Distinguishes cached audio made with different voice settings; empty for the defaults. */
+export function getVoiceCacheVariant({ voice, speakingRate, pitch }: VoiceRequestOptions): string {
+  if (!voice && speakingRate === undefined && pitch === undefined) return '';
+  return `${voice ?? ''}@${speakingRate ?? 1}/${pitch ?? 1}`;
+}
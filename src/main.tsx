@@ -5,14 +5,24 @@ import { createRoot } from 'react-dom/client';
 import App from './App';
 import { Provider } from 'react-redux';
 import { store } from '@/store/store';
+import { ApiClientContext, createApiClient } from '@/lib/api';
+import { AudioPlayerContext, createAudioPlayer } from '@/lib/audio';
+import { API_BASE_URL } from '@/lib/constants';
+
+const apiClient = createApiClient(API_BASE_URL);
+const audioPlayer = createAudioPlayer();
 
 createRoot(document.getElementById('root')!).render(
   <Provider store={store}>
-    <StrictMode>
-      <TooltipProvider delayDuration={100}>
-        <App />
-        <Toaster />
-      </TooltipProvider>
-    </StrictMode>
+    <ApiClientContext.Provider value={apiClient}>
+      <AudioPlayerContext.Provider value={audioPlayer}>
+        <StrictMode>
+          <TooltipProvider delayDuration={100}>
+            <App />
+            <Toaster />
+          </TooltipProvider>
+        </StrictMode>
+      </AudioPlayerContext.Provider>
+    </ApiClientContext.Provider>
   </Provider>
 )
@@ -0,0 +1,59 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { LanguageCode, SourceLanguageCode } from '@/lib/languages';
+import type { GlossaryEntry, NewGlossaryEntry } from '@/lib/glossary';
+
+export interface GlossaryState {
+  entries: GlossaryEntry[];
+}
+
+const initialState: GlossaryState = {
+  entries: [],
+};
+
+/** Two entries describe the same term when they share a direction and source term (ignoring case). */
+const isSameTerm = (a: NewGlossaryEntry, b: NewGlossaryEntry) =>
+  a.sourceLanguage === b.sourceLanguage &&
+  a.targetLanguage === b.targetLanguage &&
+  a.sourceTerm.trim().toLocaleLowerCase() === b.sourceTerm.trim().toLocaleLowerCase();
+
+/** Entries for one language pair; none match while the source language is unknown (`auto`). */
+export function selectGlossaryForPair(state: GlossaryState, sourceLanguage: SourceLanguageCode, targetLanguage: LanguageCode): GlossaryEntry[] {
+  return state.entries.filter(entry => entry.sourceLanguage === sourceLanguage && entry.targetLanguage === targetLanguage);
+}
+
+const glossarySlice = createSlice({
+  name: 'glossary',
+  initialState,
+  reducers: {
+    /** Adds entries, replacing any existing entry for the same term. Used for both manual adds and imports. */
+    upsertGlossaryEntries: {
+      reducer(state, action: PayloadAction<GlossaryEntry[]>) {
+        action.payload.forEach(entry => {
+          const existingIndex = state.entries.findIndex(existing => isSameTerm(existing, entry));
+          if (existingIndex === -1) {
+            state.entries.push(entry);
+          } else {
+            state.entries[existingIndex] = { ...entry, id: state.entries[existingIndex].id };
+          }
+        });
+      },
+      prepare(entries: NewGlossaryEntry[]) {
+        return { payload: entries.map(entry => ({ ...entry, id: crypto.randomUUID() })) };
+      },
+    },
+    updateGlossaryEntry(state, action: PayloadAction<GlossaryEntry>) {
+      const index = state.entries.findIndex(entry => entry.id === action.payload.id);
+      if (index !== -1) state.entries[index] = action.payload;
+    },
+    removeGlossaryEntry(state, action: PayloadAction<string>) {
+      state.entries = state.entries.filter(entry => entry.id !== action.payload);
+    },
+    clearGlossary(state) {
+      state.entries = [];
+    },
+  },
+});
+
+export const { upsertGlossaryEntries, updateGlossaryEntry, removeGlossaryEntry, clearGlossary } = glossarySlice.actions;
+export default glossarySlice.reducer;
@@ -0,0 +1,113 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { LanguageCode, SourceLanguageCode } from '@/lib/languages';
+
+/** Entries older than this are treated as misses and dropped on the next write. */
+export const TRANSLATION_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const TRANSLATION_CACHE_MAX_ENTRIES = 200;
+/** Upper bound on cached source + translated characters, keeping the persisted copy well inside localStorage quotas. */
+export const TRANSLATION_CACHE_MAX_CHARS = 400_000;
+
+interface CachedTranslation {
+  translatedText: string;
+  /** Alternative translations returned with it, if any were requested. */
+  alternatives?: string[];
+  /** Length of key + translation + alternatives, tracked for the size cap. */
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface TranslationCacheState {
+  entries: Record<string, CachedTranslation>;
+}
+
+const initialState: TranslationCacheState = {
+  entries: {},
+};
+
+/**
+ * Builds the cache key for a translation. Whitespace is collapsed and the text NFC-normalized so
+ * trivially different inputs share an entry; case is kept because it affects the output.
+ * `variant` separates translations of the same text made with different request options.
+ */
+export function makeTranslationCacheKey(text: string, sourceLanguage: SourceLanguageCode, targetLanguage: LanguageCode, variant = ''): string {
+  const normalizedText = text.normalize('NFC').trim().replace(/\s+/g, ' ');
+  return variant
+    ? `${sourceLanguage}|${targetLanguage}|${variant}|${normalizedText}`
+    : `${sourceLanguage}|${targetLanguage}|${normalizedText}`;
+}
+
+export function getCachedTranslation(state: TranslationCacheState, key: string, now = Date.now()): string | null {
+  const entry = state.entries[key];
+  if (!entry || now - entry.createdAt > TRANSLATION_CACHE_TTL_MS) return null;
+  return entry.translatedText;
+}
+
+/** Alternatives stored with a cached translation; empty when there are none or the entry expired. */
+export function getCachedAlternatives(state: TranslationCacheState, key: string, now = Date.now()): string[] {
+  const entry = state.entries[key];
+  if (!entry || now - entry.createdAt > TRANSLATION_CACHE_TTL_MS) return [];
+  return entry.alternatives ?? [];
+}
+
+function evict(state: TranslationCacheState, now: number) {
+  const keys = Object.keys(state.entries);
+  let totalSize = 0;
+  keys.forEach(key => {
+    if (now - state.entries[key].createdAt > TRANSLATION_CACHE_TTL_MS) {
+      delete state.entries[key];
+    } else {
+      totalSize += state.entries[key].size;
+    }
+  });
+
+  // Least recently used first.
+  const remaining = Object.keys(state.entries).sort((a, b) => state.entries[a].lastUsedAt - state.entries[b].lastUsedAt);
+  let count = remaining.length;
+  for (const key of remaining) {
+    if (count <= TRANSLATION_CACHE_MAX_ENTRIES && totalSize <= TRANSLATION_CACHE_MAX_CHARS) break;
+    totalSize -= state.entries[key].size;
+    delete state.entries[key];
+    count--;
+  }
+}
+
+const translationCacheSlice = createSlice({
+  name: 'translationCache',
+  initialState,
+  reducers: {
+    cacheTranslation: {
+      reducer(state, action: PayloadAction<{ key: string; translatedText: string; alternatives?: string[]; now: number }>) {
+        const { key, translatedText, alternatives, now } = action.payload;
+        const alternativesSize = alternatives?.reduce((total, alternative) => total + alternative.length, 0) ?? 0;
+        state.entries[key] = {
+          translatedText,
+          ...(alternatives && alternatives.length > 0 ? { alternatives } : {}),
+          size: key.length + translatedText.length + alternativesSize,
+          createdAt: now,
+          lastUsedAt: now,
+        };
+        evict(state, now);
+      },
+      prepare(payload: { key: string; translatedText: string; alternatives?: string[] }) {
+        return { payload: { ...payload, now: Date.now() } };
+      },
+    },
+    touchTranslation: {
+      reducer(state, action: PayloadAction<{ key: string; now: number }>) {
+        const entry = state.entries[action.payload.key];
+        if (entry) entry.lastUsedAt = action.payload.now;
+      },
+      prepare(key: string) {
+        return { payload: { key, now: Date.now() } };
+      },
+    },
+    clearTranslationCache(state) {
+      state.entries = {};
+    },
+  },
+});
+
+export const { cacheTranslation, touchTranslation, clearTranslationCache } = translationCacheSlice.actions;
+export default translationCacheSlice.reducer;
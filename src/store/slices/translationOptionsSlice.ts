@@ -0,0 +1,44 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { LanguageCode, SourceLanguageCode } from '@/lib/languages';
+import type { TranslationOptions } from '@/lib/translation-options';
+import { DEFAULT_TRANSLATION_OPTIONS } from '@/lib/translation-options';
+
+export interface TranslationOptionsState {
+  /** Options keyed by `source|target`; pairs without an entry use the defaults. */
+  byPair: Record<string, TranslationOptions>;
+}
+
+const initialState: TranslationOptionsState = {
+  byPair: {},
+};
+
+const pairKey = (sourceLanguage: SourceLanguageCode, targetLanguage: LanguageCode) => `${sourceLanguage}|${targetLanguage}`;
+
+export function selectTranslationOptionsForPair(
+  state: TranslationOptionsState,
+  sourceLanguage: SourceLanguageCode,
+  targetLanguage: LanguageCode
+): TranslationOptions {
+  return { ...DEFAULT_TRANSLATION_OPTIONS, ...state.byPair[pairKey(sourceLanguage, targetLanguage)] };
+}
+
+const translationOptionsSlice = createSlice({
+  name: 'translationOptions',
+  initialState,
+  reducers: {
+    setTranslationOptions(
+      state,
+      action: PayloadAction<{ sourceLanguage: LanguageCode; targetLanguage: LanguageCode; options: TranslationOptions }>
+    ) {
+      const { sourceLanguage, targetLanguage, options } = action.payload;
+      state.byPair[pairKey(sourceLanguage, targetLanguage)] = options;
+    },
+    resetTranslationOptions(state, action: PayloadAction<{ sourceLanguage: LanguageCode; targetLanguage: LanguageCode }>) {
+      delete state.byPair[pairKey(action.payload.sourceLanguage, action.payload.targetLanguage)];
+    },
+  },
+});
+
+export const { setTranslationOptions, resetTranslationOptions } = translationOptionsSlice.actions;
+export default translationOptionsSlice.reducer;
@@ -0,0 +1,34 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { LanguageCode } from '@/lib/languages';
+import type { VoicePreference } from '@/lib/voices';
+import { DEFAULT_VOICE_PREFERENCE } from '@/lib/voices';
+
+export interface VoicePreferencesState {
+  /** Preferences keyed by language; languages without an entry use the defaults. */
+  byLanguage: Partial<Record<LanguageCode, VoicePreference>>;
+}
+
+const initialState: VoicePreferencesState = {
+  byLanguage: {},
+};
+
+export function selectVoicePreference(state: VoicePreferencesState, language: LanguageCode): VoicePreference {
+  return { ...DEFAULT_VOICE_PREFERENCE, ...state.byLanguage[language] };
+}
+
+const voicePreferencesSlice = createSlice({
+  name: 'voicePreferences',
+  initialState,
+  reducers: {
+    setVoicePreference(state, action: PayloadAction<{ language: LanguageCode; preference: VoicePreference }>) {
+      state.byLanguage[action.payload.language] = action.payload.preference;
+    },
+    resetVoicePreference(state, action: PayloadAction<{ language: LanguageCode }>) {
+      delete state.byLanguage[action.payload.language];
+    },
+  },
+});
+
+export const { setVoicePreference, resetVoicePreference } = voicePreferencesSlice.actions;
+export default voicePreferencesSlice.reducer;
@@ -1,17 +1,9 @@
 import { createSlice } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
-
-interface WordDetails {
-  definedWord: string;
-  type: string;
-  meaning: string;
-  synonyms: string[];
-  antonyms: string[];
-  ipaPronunciation?: string;
-}
+import type { GetWordDetailsOutput } from '@/lib/api';
 
 interface WordDetailsState {
-  cache: Record<string, WordDetails>;
+  cache: Record<string, GetWordDetailsOutput>;
 }
 
 const initialState: WordDetailsState = {
@@ -24,7 +16,7 @@ const wordDetailsSlice = createSlice({
   reducers: {
     setWordDetails(
       state,
-      action: PayloadAction<{ key: string; details: WordDetails }>
+      action: PayloadAction<{ key: string; details: GetWordDetailsOutput }>
     ) {
       state.cache[action.payload.key] = action.payload.details;
     },
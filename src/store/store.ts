@@ -1,11 +1,87 @@
-import { configureStore } from '@reduxjs/toolkit';
+import { combineReducers, configureStore } from '@reduxjs/toolkit';
 import wordDetailsReducer from './slices/wordDetailsSlice';
+import translationCacheReducer from './slices/translationCacheSlice';
+import type { TranslationCacheState } from './slices/translationCacheSlice';
+import glossaryReducer from './slices/glossarySlice';
+import type { GlossaryState } from './slices/glossarySlice';
+import translationOptionsReducer from './slices/translationOptionsSlice';
+import type { TranslationOptionsState } from './slices/translationOptionsSlice';
+import voicePreferencesReducer from './slices/voicePreferencesSlice';
+import type { VoicePreferencesState } from './slices/voicePreferencesSlice';
+
+const TRANSLATION_CACHE_STORAGE_KEY = 'translationCache';
+const GLOSSARY_STORAGE_KEY = 'glossary';
+const TRANSLATION_OPTIONS_STORAGE_KEY = 'translationOptions';
+const VOICE_PREFERENCES_STORAGE_KEY = 'voicePreferences';
+
+function loadPersistedState<T>(storageKey: string, isValid: (value: Record<string, unknown>) => boolean): T | undefined {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return undefined;
+    const parsed = JSON.parse(saved);
+    if (typeof parsed === 'object' && parsed !== null && isValid(parsed)) {
+      return parsed as T;
+    }
+  } catch (e) {
+    console.error(`Failed to parse ${storageKey} from localStorage:`, e);
+  }
+  return undefined;
+}
+
+const persistedTranslationCache = loadPersistedState<TranslationCacheState>(
+  TRANSLATION_CACHE_STORAGE_KEY,
+  parsed => typeof parsed.entries === 'object' && parsed.entries !== null
+);
+const persistedGlossary = loadPersistedState<GlossaryState>(GLOSSARY_STORAGE_KEY, parsed => Array.isArray(parsed.entries));
+const persistedTranslationOptions = loadPersistedState<TranslationOptionsState>(
+  TRANSLATION_OPTIONS_STORAGE_KEY,
+  parsed => typeof parsed.byPair === 'object' && parsed.byPair !== null
+);
+const persistedVoicePreferences = loadPersistedState<VoicePreferencesState>(
+  VOICE_PREFERENCES_STORAGE_KEY,
+  parsed => typeof parsed.byLanguage === 'object' && parsed.byLanguage !== null
+);
+
+const rootReducer = combineReducers({
+  wordDetails: wordDetailsReducer,
+  translationCache: translationCacheReducer,
+  glossary: glossaryReducer,
+  translationOptions: translationOptionsReducer,
+  voicePreferences: voicePreferencesReducer,
+});
+
+export type RootState = ReturnType<typeof rootReducer>;
+
+const preloadedState: Partial<RootState> = {};
+if (persistedTranslationCache) preloadedState.translationCache = persistedTranslationCache;
+if (persistedGlossary) preloadedState.glossary = persistedGlossary;
+if (persistedTranslationOptions) preloadedState.translationOptions = persistedTranslationOptions;
+if (persistedVoicePreferences) preloadedState.voicePreferences = persistedVoicePreferences;
 
 export const store = configureStore({
-  reducer: {
-    wordDetails: wordDetailsReducer,
-  },
+  reducer: rootReducer,
+  preloadedState,
 });
 
-export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
+
+/** Mirrors one slice into localStorage whenever its state object changes. */
+function persistSlice<K extends keyof RootState>(sliceName: K, storageKey: string) {
+  let lastPersisted = store.getState()[sliceName];
+  store.subscribe(() => {
+    const current = store.getState()[sliceName];
+    if (current === lastPersisted) return;
+    lastPersisted = current;
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(current));
+    } catch (e) {
+      console.error(`Failed to persist ${storageKey} to localStorage:`, e);
+    }
+  });
+}
+
+persistSlice('translationCache', TRANSLATION_CACHE_STORAGE_KEY);
+persistSlice('glossary', GLOSSARY_STORAGE_KEY);
+persistSlice('translationOptions', TRANSLATION_OPTIONS_STORAGE_KEY);
+persistSlice('voicePreferences', VOICE_PREFERENCES_STORAGE_KEY);